@@ -0,0 +1,154 @@
+/**
+ * Measures check() throughput, latency and memory per tracked key for every algorithm.
+ *
+ * Time is driven by a manual clock and keys are drawn from a seeded generator,
+ * so every run performs the same sequence of checks.
+ *
+ * Usage: bun run benchmarks/algorithms.ts [--ops 200000] [--keys 1000,100000] [--precision 10,100,1000] [--algorithm GCRA] [--json]
+ */
+import { parseArgs } from "util";
+import { RateLimiter, Algorithm, ManualClock } from "../src/index";
+
+const { values } = parseArgs({
+	options: {
+		ops: { type: "string", default: "200000" },
+		keys: { type: "string", default: "1000,100000" },
+		precision: { type: "string", default: "10,100,1000" },
+		algorithm: { type: "string", multiple: true },
+		json: { type: "boolean", default: false },
+	},
+});
+
+const ops = Number(values.ops);
+const cardinalities = values.keys.split(",").map(Number);
+const precisions = values.precision.split(",").map(Number);
+const algorithms = (values.algorithm as Algorithm[] | undefined) ?? Object.values(Algorithm);
+
+/**
+ * Clock time passing between two checks.
+ */
+const TICK = 1;
+
+/**
+ * Start time of the manual clock.
+ */
+const START = 1_800_000_000_000;
+
+/**
+ * Seed of the key generator.
+ */
+const SEED = 42;
+
+/**
+ * A benchmarked limiter configuration.
+ */
+interface Scenario {
+	algorithm: Algorithm;
+	keys: number;
+	precision?: number;
+}
+
+/**
+ * Measurements of a scenario.
+ */
+interface Measurement {
+	algorithm: Algorithm;
+	keys: number;
+	precision: number | "-";
+	"ops/sec": number;
+	"p50 µs": number;
+	"p99 µs": number;
+	"bytes/key": number;
+}
+
+/**
+ * Mulberry32 pseudo random number generator, returning numbers in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+	return () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Collects garbage and reads the used heap size.
+ */
+function getHeapUsed(): number {
+	Bun.gc(true);
+	return process.memoryUsage().heapUsed;
+}
+
+/**
+ * Gets the value below which the given share of the sorted samples falls.
+ */
+function percentile(sorted: Float64Array, share: number): number {
+	return sorted[Math.min(Math.floor(sorted.length * share), sorted.length - 1)]!;
+}
+
+/**
+ * Runs the checks of a scenario and measures them.
+ */
+function run(scenario: Scenario): Measurement {
+	const random = createRandom(SEED);
+	const identifiers = Array.from({ length: scenario.keys }, (_, i) => `user${i}`);
+	const sequence = Array.from({ length: ops }, () => identifiers[Math.floor(random() * scenario.keys)]!);
+	const durations = new Float64Array(ops);
+
+	const clock = new ManualClock(START);
+	const limiter = new RateLimiter({
+		algorithm: scenario.algorithm,
+		max: 100,
+		window: 60_000,
+		...(scenario.precision !== undefined && { precision: scenario.precision }),
+		enableCleanup: false,
+		clock,
+		scheduler: clock,
+	});
+
+	const begin = Bun.nanoseconds();
+	for (let i = 0; i < ops; i++) {
+		const start = Bun.nanoseconds();
+		limiter.check("/api", sequence[i]!);
+		durations[i] = Bun.nanoseconds() - start;
+		clock.advance(TICK);
+	}
+	const elapsed = Bun.nanoseconds() - begin;
+
+	// Compare the heap with and without the tracked entries
+	const size = limiter.getSize();
+	const heapWithEntries = getHeapUsed();
+	limiter.clear();
+	const bytesPerKey = (heapWithEntries - getHeapUsed()) / size;
+	durations.sort();
+
+	return {
+		algorithm: scenario.algorithm,
+		keys: scenario.keys,
+		precision: scenario.precision ?? "-",
+		"ops/sec": Math.round(ops / (elapsed / 1e9)),
+		"p50 µs": Number((percentile(durations, 0.5) / 1000).toFixed(2)),
+		"p99 µs": Number((percentile(durations, 0.99) / 1000).toFixed(2)),
+		"bytes/key": Math.round(bytesPerKey),
+	};
+}
+
+const scenarios: Scenario[] = algorithms.flatMap((algorithm) =>
+	cardinalities.flatMap((keys): Scenario[] =>
+		algorithm === Algorithm.SLIDING_WINDOW ? precisions.map((precision) => ({ algorithm, keys, precision })) : [{ algorithm, keys }]
+	)
+);
+
+// Warm up the JIT so the first scenario isn't penalized
+run({ algorithm: Algorithm.FIXED_WINDOW, keys: 100 });
+
+const results = scenarios.map(run);
+
+if (values.json) {
+	console.log(JSON.stringify({ ops, tick: TICK, seed: SEED, runtime: `bun ${Bun.version}`, results }, null, 2));
+} else {
+	console.log(`${ops} checks per scenario, ${TICK}ms apart, max 100 per 60s window`);
+	console.table(results);
+}
@@ -0,0 +1,72 @@
+/**
+ * Compares the periodic cleanup scanning every entry with the expiry wheel of the memory store.
+ *
+ * Usage: bun run benchmarks/cleanup.ts [entries] [ticks]
+ */
+import { MemoryStore } from "../src/index";
+
+const entries = Number(process.argv[2] ?? 200_000);
+const ticks = Number(process.argv[3] ?? 20);
+
+/**
+ * Time between two cleanups, matching the default cleanupInterval.
+ */
+const CLEANUP_INTERVAL = 30_000;
+
+/**
+ * Spread of the reset times, so only a small share of the entries expires per cleanup.
+ */
+const RESET_SPREAD = 3_600_000;
+
+/**
+ * Fills a store with entries whose reset times are spread evenly over the next hour.
+ */
+function createStore(start: number): MemoryStore {
+	const store = new MemoryStore();
+	for (let i = 0; i < entries; i++) {
+		store.set(`/api:user${i}`, { count: 1, resetTime: start + ((i * 7919) % RESET_SPREAD) });
+	}
+	return store;
+}
+
+/**
+ * The cleanup before the expiry wheel, walking the entire map.
+ */
+function scanExpired(store: MemoryStore, now: number): number {
+	let deleted = 0;
+	for (const [key, entry] of store.entries()) {
+		if (entry.resetTime <= now) {
+			store.delete(key);
+			deleted++;
+		}
+	}
+	return deleted;
+}
+
+/**
+ * Runs a cleanup every interval and measures how long each one takes.
+ */
+function measure(name: string, cleanup: (store: MemoryStore, now: number) => number) {
+	const start = 1_800_000_000_000;
+	const store = createStore(start);
+	const durations: number[] = [];
+	let deleted = 0;
+
+	for (let tick = 1; tick <= ticks; tick++) {
+		const now = start + tick * CLEANUP_INTERVAL;
+		const begin = performance.now();
+		deleted += cleanup(store, now);
+		durations.push(performance.now() - begin);
+	}
+
+	durations.sort((a, b) => a - b);
+	return {
+		cleanup: name,
+		"avg ms/tick": Number((durations.reduce((sum, duration) => sum + duration, 0) / ticks).toFixed(3)),
+		"max ms/tick": Number(durations[durations.length - 1]!.toFixed(3)),
+		deleted,
+	};
+}
+
+console.log(`${entries} entries, ${ticks} cleanups ${CLEANUP_INTERVAL / 1000}s apart`);
+console.table([measure("full scan", scanExpired), measure("expiry wheel", (store, now) => store.deleteExpired(now).length)]);
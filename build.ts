@@ -1,4 +1,4 @@
-import dts from "bun-plugin-dts";
+import { $ } from "bun";
 import fs from "fs/promises";
 import { Logger } from "@rabbit-company/logger";
 
@@ -13,14 +13,90 @@ let moduleBuild = await Bun.build({
 	outdir: "./module",
 	target: "node",
 	format: "esm",
-	plugins: [dts({ output: { noBanner: true } })],
 });
 
 if (moduleBuild.success) {
 	await fs.rename("./module/index.js", "./module/rate-limiter.js");
-	await fs.rename("./module/index.d.ts", "./module/rate-limiter.d.ts");
 	await fs.cp("./module/rate-limiter.js", "./examples/website/rate-limiter.js");
 	logger.info("Bulding module complete");
 } else {
 	logger.error("Bulding module failed");
 }
+
+const adapters = ["hono", "express", "fastify", "elysia", "fetch"];
+
+logger.info("Start bulding adapters...");
+let adaptersBuild = await Bun.build({
+	entrypoints: adapters.map((adapter) => `./src/adapters/${adapter}.ts`),
+	outdir: "./module",
+	target: "node",
+	format: "esm",
+	external: ["hono", "express", "fastify", "elysia"],
+});
+
+if (adaptersBuild.success) {
+	logger.info("Bulding adapters complete");
+} else {
+	logger.error("Bulding adapters failed");
+}
+
+logger.info("Start bulding snapshot helpers...");
+let snapshotBuild = await Bun.build({
+	entrypoints: ["./src/snapshot.ts"],
+	outdir: "./module",
+	target: "node",
+	format: "esm",
+});
+
+if (snapshotBuild.success) {
+	logger.info("Bulding snapshot helpers complete");
+} else {
+	logger.error("Bulding snapshot helpers failed");
+}
+
+// Declarations are emitted per file and re-exported by each entrypoint, so the adapters and
+// snapshot helpers refer to the same RateLimiter declaration as the main entry instead of their own copy
+logger.info("Start bulding declarations...");
+const declarationsBuild = await $`bunx tsc -p tsconfig.build.json`.nothrow();
+
+const entrypoints: Record<string, string> = { "rate-limiter": "index", snapshot: "snapshot" };
+for (const adapter of adapters) entrypoints[adapter] = `adapters/${adapter}`;
+
+if (declarationsBuild.exitCode === 0) {
+	// Node16 and NodeNext resolution need the extension on relative imports of ES modules
+	for await (const file of new Bun.Glob("**/*.d.ts").scan("./module/types")) {
+		const path = `./module/types/${file}`;
+		const declarations = await Bun.file(path).text();
+		await Bun.write(path, declarations.replace(/((?:from |import\()["'])(\.{1,2}\/[^"']+?)(?<!\.js)(["'])/g, "$1$2.js$3"));
+	}
+
+	for (const [name, path] of Object.entries(entrypoints)) {
+		await Bun.write(`./module/${name}.d.ts`, `export * from "./types/${path}.js";\n`);
+	}
+	logger.info("Bulding declarations complete");
+} else {
+	logger.error("Bulding declarations failed");
+}
+
+// Type-check the package the way an ES module consumer with NodeNext resolution imports it
+logger.info("Start checking declarations...");
+const consumer = "./module/consumer-check.ts";
+await Bun.write(
+	consumer,
+	[
+		`import { RateLimiter } from "@rabbit-company/rate-limiter";`,
+		`import { saveSnapshot } from "@rabbit-company/rate-limiter/snapshot";`,
+		...adapters.map((adapter) => `import { rateLimit as ${adapter} } from "@rabbit-company/rate-limiter/${adapter}";`),
+		`const limiter: RateLimiter = new RateLimiter();`,
+		`await saveSnapshot(limiter, "snapshot.json");`,
+		...adapters.map((adapter) => `${adapter}({ limiter, identifier: () => "" });`),
+	].join("\n")
+);
+const consumerCheck = await $`bunx tsc --noEmit --strict --skipLibCheck --target esnext --module nodenext --moduleResolution nodenext ${consumer}`.nothrow();
+await fs.rm(consumer);
+
+if (consumerCheck.exitCode === 0) {
+	logger.info("Checking declarations complete");
+} else {
+	logger.error("Checking declarations failed");
+}
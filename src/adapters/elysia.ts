@@ -0,0 +1,74 @@
+import { Elysia, type Context } from "elysia";
+import type { MaybePromise, RateLimitResult } from "../types";
+import { createChecker, getLimitedBody, type AdapterOptions } from "./shared";
+
+/**
+ * Options for the Elysia rate limit plugin.
+ */
+export interface ElysiaRateLimitOptions extends AdapterOptions<Context, Response> {
+	/**
+	 * How the endpoint passed to the limiter is derived from the request.
+	 * "path" uses the request path, "route" the pattern of the matched route (e.g. "/users/:id"),
+	 * so that all requests to one route share a limit.
+	 * @default "path"
+	 */
+	endpoint?: "path" | "route" | ((context: Context) => MaybePromise<string>);
+}
+
+/**
+ * Creates an Elysia plugin rate limiting requests with the given limiter.
+ * The result of each check is available to downstream handlers as rateLimit on the context.
+ *
+ * @param options - Limiter, identifier extraction and response handling
+ * @returns Elysia plugin
+ *
+ * @example
+ * import { RateLimiter } from "@rabbit-company/rate-limiter";
+ * import { rateLimit, ipIdentifier } from "@rabbit-company/rate-limiter/elysia";
+ *
+ * const limiter = new RateLimiter({ max: 100, window: 60_000 });
+ * new Elysia().use(rateLimit({ limiter, identifier: ipIdentifier() }));
+ */
+export function rateLimit(options: ElysiaRateLimitOptions) {
+	const { endpoint = "path", onLimited } = options;
+	const check = createChecker({ ...options, onLimited: undefined }, (context) => getEndpoint(context, endpoint));
+
+	return new Elysia()
+		.derive({ as: "global" }, async (context) => {
+			const { result, headers } = await check(context as Context);
+			Object.assign(context.set.headers, headers);
+			return { rateLimit: result };
+		})
+		.onBeforeHandle({ as: "global" }, (context) => {
+			const { rateLimit, set } = context;
+			if (!rateLimit?.limited) return;
+			if (onLimited) return onLimited(context as Context, rateLimit);
+
+			set.status = 429;
+			return getLimitedBody(rateLimit);
+		});
+}
+
+/**
+ * Identifies callers by the address of the client, as reported by the server running the app.
+ */
+export function ipIdentifier(): (context: Context) => string {
+	return (context) => context.server?.requestIP(context.request)?.address || "";
+}
+
+/**
+ * Identifies callers by a request header, e.g. an API key or a proxy's client IP header.
+ * @param name - Name of the header
+ */
+export function headerIdentifier(name: string): (context: Context) => string {
+	return (context) => context.request.headers.get(name) || "";
+}
+
+/**
+ * Derives the endpoint passed to the limiter.
+ */
+function getEndpoint(context: Context, endpoint: NonNullable<ElysiaRateLimitOptions["endpoint"]>): MaybePromise<string> {
+	if (typeof endpoint === "function") return endpoint(context);
+	if (endpoint === "route" && context.route) return context.route;
+	return context.path;
+}
@@ -0,0 +1,93 @@
+import type { Request, RequestHandler, Response } from "express";
+import type { MaybePromise, RateLimitResult } from "../types";
+import { createChecker, getHeaderValue, getLimitedBody, type AdapterOptions } from "./shared";
+
+/**
+ * Options for the Express rate limit middleware.
+ */
+export interface ExpressRateLimitOptions extends Omit<AdapterOptions<Request, never>, "onLimited"> {
+	/**
+	 * How the endpoint passed to the limiter is derived from the request.
+	 * "path" uses the request path, "route" the pattern of the matched route (e.g. "/users/:id"),
+	 * which is only known when the middleware is added to a route rather than with app.use.
+	 * @default "path"
+	 */
+	endpoint?: "path" | "route" | ((req: Request) => MaybePromise<string>);
+	/**
+	 * Sends the response for limited requests.
+	 * @default A 429 JSON response with the error and the time to wait
+	 */
+	onLimited?: (req: Request, res: Response, result: RateLimitResult) => MaybePromise<void>;
+}
+
+/**
+ * Creates an Express middleware rate limiting requests with the given limiter.
+ * The result of each check is available to downstream handlers as res.locals.rateLimit.
+ *
+ * @param options - Limiter, identifier extraction and response handling
+ * @returns Express middleware
+ *
+ * @example
+ * import { RateLimiter } from "@rabbit-company/rate-limiter";
+ * import { rateLimit, ipIdentifier } from "@rabbit-company/rate-limiter/express";
+ *
+ * const limiter = new RateLimiter({ max: 100, window: 60_000 });
+ * app.use(rateLimit({ limiter, identifier: ipIdentifier() }));
+ */
+export function rateLimit(options: ExpressRateLimitOptions): RequestHandler {
+	const { endpoint = "path", onLimited = defaultLimitedResponse } = options;
+	const check = createChecker({ ...options, onLimited: undefined }, (req) => getEndpoint(req, endpoint));
+
+	return (req, res, next) => {
+		check(req)
+			.then(async ({ result, headers }) => {
+				if (!result) return next();
+
+				res.locals.rateLimit = result;
+				res.set(headers);
+
+				if (result.limited) return onLimited(req, res, result);
+				next();
+			})
+			.catch(next);
+	};
+}
+
+/**
+ * Identifies callers by req.ip, which respects Express's "trust proxy" setting.
+ */
+export function ipIdentifier(): (req: Request) => string {
+	return (req) => req.ip || "";
+}
+
+/**
+ * Identifies callers by a request header, e.g. an API key or a proxy's client IP header.
+ * @param name - Name of the header
+ */
+export function headerIdentifier(name: string): (req: Request) => string {
+	return (req) => getHeaderValue(req.headers[name.toLowerCase()]);
+}
+
+/**
+ * Identifies callers by a value set on res.locals by earlier middleware, e.g. the authenticated user ID.
+ * @param key - Name of the res.locals property
+ */
+export function localsIdentifier(key: string): (req: Request) => string {
+	return (req) => String(req.res?.locals[key] ?? "");
+}
+
+/**
+ * Derives the endpoint passed to the limiter.
+ */
+function getEndpoint(req: Request, endpoint: NonNullable<ExpressRateLimitOptions["endpoint"]>): MaybePromise<string> {
+	if (typeof endpoint === "function") return endpoint(req);
+	if (endpoint === "route" && req.route) return req.baseUrl + req.route.path;
+	return req.baseUrl + req.path;
+}
+
+/**
+ * Responds to limited requests with a 429 JSON error.
+ */
+function defaultLimitedResponse(req: Request, res: Response, result: RateLimitResult): void {
+	res.status(429).json(getLimitedBody(result));
+}
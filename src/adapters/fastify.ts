@@ -0,0 +1,93 @@
+import type { FastifyReply, FastifyRequest, onRequestHookHandler } from "fastify";
+import type { MaybePromise, RateLimitResult } from "../types";
+import { createChecker, getHeaderValue, getLimitedBody, type AdapterOptions } from "./shared";
+
+declare module "fastify" {
+	interface FastifyRequest {
+		/**
+		 * Result of the rate limit check for the current request, undefined if it was skipped.
+		 */
+		rateLimit?: RateLimitResult;
+	}
+}
+
+/**
+ * Options for the Fastify rate limit hook.
+ */
+export interface FastifyRateLimitOptions extends Omit<AdapterOptions<FastifyRequest, never>, "onLimited"> {
+	/**
+	 * How the endpoint passed to the limiter is derived from the request.
+	 * "path" uses the request path, "route" the pattern of the matched route (e.g. "/users/:id"),
+	 * so that all requests to one route share a limit.
+	 * @default "path"
+	 */
+	endpoint?: "path" | "route" | ((request: FastifyRequest) => MaybePromise<string>);
+	/**
+	 * Sends the response for limited requests.
+	 * @default A 429 JSON response with the error and the time to wait
+	 */
+	onLimited?: (request: FastifyRequest, reply: FastifyReply, result: RateLimitResult) => MaybePromise<unknown>;
+}
+
+/**
+ * Creates a Fastify onRequest hook rate limiting requests with the given limiter.
+ * The result of each check is available to downstream handlers as request.rateLimit.
+ *
+ * @param options - Limiter, identifier extraction and response handling
+ * @returns Fastify onRequest hook
+ *
+ * @example
+ * import { RateLimiter } from "@rabbit-company/rate-limiter";
+ * import { rateLimit, ipIdentifier } from "@rabbit-company/rate-limiter/fastify";
+ *
+ * const limiter = new RateLimiter({ max: 100, window: 60_000 });
+ * app.addHook("onRequest", rateLimit({ limiter, identifier: ipIdentifier() }));
+ */
+export function rateLimit(options: FastifyRateLimitOptions): onRequestHookHandler {
+	const { endpoint = "path", onLimited = defaultLimitedResponse } = options;
+	const check = createChecker({ ...options, onLimited: undefined }, (request) => getEndpoint(request, endpoint));
+
+	return async (request, reply) => {
+		const { result, headers } = await check(request);
+		if (!result) return;
+
+		request.rateLimit = result;
+		reply.headers(headers);
+
+		if (result.limited) {
+			await onLimited(request, reply, result);
+			return reply;
+		}
+	};
+}
+
+/**
+ * Identifies callers by request.ip, which respects Fastify's trustProxy option.
+ */
+export function ipIdentifier(): (request: FastifyRequest) => string {
+	return (request) => request.ip || "";
+}
+
+/**
+ * Identifies callers by a request header, e.g. an API key or a proxy's client IP header.
+ * @param name - Name of the header
+ */
+export function headerIdentifier(name: string): (request: FastifyRequest) => string {
+	return (request) => getHeaderValue(request.headers[name.toLowerCase()]);
+}
+
+/**
+ * Derives the endpoint passed to the limiter.
+ */
+function getEndpoint(request: FastifyRequest, endpoint: NonNullable<FastifyRateLimitOptions["endpoint"]>): MaybePromise<string> {
+	if (typeof endpoint === "function") return endpoint(request);
+	if (endpoint === "route" && request.routeOptions.url) return request.routeOptions.url;
+	return request.url.split("?")[0]!;
+}
+
+/**
+ * Responds to limited requests with a 429 JSON error.
+ */
+function defaultLimitedResponse(request: FastifyRequest, reply: FastifyReply, result: RateLimitResult): FastifyReply {
+	return reply.code(429).send(getLimitedBody(result));
+}
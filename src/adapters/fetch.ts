@@ -0,0 +1,112 @@
+import type { MaybePromise, RateLimitResult } from "../types";
+import { createChecker, getLimitedBody, type AdapterOptions } from "./shared";
+
+/**
+ * Fetch style request handler, e.g. the fetch function of Bun.serve, Deno.serve or a Cloudflare Worker.
+ * @template A - Arguments the runtime passes after the request, e.g. the Bun server
+ */
+export type FetchHandler<A extends unknown[] = []> = (request: Request, ...args: A) => MaybePromise<Response>;
+
+/**
+ * Options for the Fetch rate limit wrapper.
+ * The callbacks receive the request followed by the arguments the runtime passes to the handler.
+ * @template A - Arguments the runtime passes after the request, e.g. the Bun server
+ */
+export interface FetchRateLimitOptions<A extends unknown[] = []> extends Omit<AdapterOptions<[Request, ...A], Response>, "identifier" | "skip" | "onLimited"> {
+	/**
+	 * Extracts the caller identifier from the request, e.g. with ipIdentifier or headerIdentifier.
+	 */
+	identifier: (request: Request, ...args: A) => MaybePromise<string>;
+	/**
+	 * How the endpoint passed to the limiter is derived from the request.
+	 * "path" uses the pathname of the request URL.
+	 * @default "path"
+	 */
+	endpoint?: "path" | ((request: Request, ...args: A) => MaybePromise<string>);
+	/**
+	 * Requests for which this returns true aren't rate limited.
+	 */
+	skip?: (request: Request, ...args: A) => MaybePromise<boolean>;
+	/**
+	 * Creates the response for limited requests.
+	 * @default A 429 JSON response with the error and the time to wait
+	 */
+	onLimited?: (request: Request, result: RateLimitResult) => MaybePromise<Response>;
+}
+
+/**
+ * Server able to report the address of a request's client, e.g. the Bun server passed to fetch.
+ */
+export interface RequestIPServer {
+	requestIP(request: Request): { address: string } | null;
+}
+
+/**
+ * Creates a wrapper rate limiting requests to a Fetch style handler with the given limiter.
+ * The rate limit headers are added to the responses of the handler.
+ *
+ * @param options - Limiter, identifier extraction and response handling
+ * @returns Function wrapping a handler
+ *
+ * @example
+ * import { RateLimiter } from "@rabbit-company/rate-limiter";
+ * import { rateLimit, ipIdentifier } from "@rabbit-company/rate-limiter/fetch";
+ *
+ * const limiter = new RateLimiter({ max: 100, window: 60_000 });
+ * const withRateLimit = rateLimit<[Server]>({ limiter, identifier: ipIdentifier() });
+ *
+ * Bun.serve({ fetch: withRateLimit((request) => new Response("OK")) });
+ */
+export function rateLimit<A extends unknown[] = []>(options: FetchRateLimitOptions<A>): (handler: FetchHandler<A>) => FetchHandler<A> {
+	const { identifier, endpoint = "path", skip, onLimited } = options;
+	const check = createChecker<[Request, ...A], Response>(
+		{
+			...options,
+			identifier: (args) => identifier(...args),
+			skip: skip && ((args) => skip(...args)),
+			onLimited: onLimited && (([request], result) => onLimited(request, result)),
+		},
+		(args) => (typeof endpoint === "function" ? endpoint(...args) : new URL(args[0].url).pathname)
+	);
+
+	return (handler) =>
+		async (request, ...args) => {
+			const { result, headers, response } = await check([request, ...args]);
+			if (!result) return handler(request, ...args);
+
+			const output = result.limited ? (response ?? Response.json(getLimitedBody(result), { status: 429 })) : await handler(request, ...args);
+			return withHeaders(output, headers);
+		};
+}
+
+/**
+ * Identifies callers by the address of the client, as reported by the server passed to the handler.
+ */
+export function ipIdentifier(): (request: Request, server: RequestIPServer) => string {
+	return (request, server) => server.requestIP(request)?.address || "";
+}
+
+/**
+ * Identifies callers by a request header, e.g. an API key or a proxy's client IP header.
+ * @param name - Name of the header
+ */
+export function headerIdentifier(name: string): (request: Request) => string {
+	return (request) => request.headers.get(name) || "";
+}
+
+/**
+ * Adds headers to a response, copying it if its headers are immutable.
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+	const entries = Object.entries(headers);
+	if (entries.length === 0) return response;
+
+	try {
+		for (const [name, value] of entries) response.headers.set(name, value);
+		return response;
+	} catch {
+		const copy = new Response(response.body, response);
+		for (const [name, value] of entries) copy.headers.set(name, value);
+		return copy;
+	}
+}
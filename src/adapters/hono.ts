@@ -0,0 +1,95 @@
+import type { Context, MiddlewareHandler } from "hono";
+import type { GetConnInfo } from "hono/conninfo";
+import type { RateLimiter } from "../index";
+import type { MaybePromise, RateLimitResult } from "../types";
+import { createChecker, getLimitedBody, type AdapterOptions } from "./shared";
+
+/**
+ * Variables the middleware adds to the Hono context.
+ */
+export type RateLimitVariables = {
+	/**
+	 * Result of the rate limit check for the current request.
+	 */
+	rateLimit: RateLimitResult;
+};
+
+/**
+ * Options for the Hono rate limit middleware.
+ */
+export interface HonoRateLimitOptions extends AdapterOptions<Context, Response> {
+	/**
+	 * How the endpoint passed to the limiter is derived from the request.
+	 * "path" uses the request path, "route" the pattern of the matched route (e.g. "/users/:id"),
+	 * so that all requests to one route share a limit.
+	 * @default "path"
+	 */
+	endpoint?: "path" | "route" | ((c: Context) => MaybePromise<string>);
+}
+
+/**
+ * Creates a Hono middleware rate limiting requests with the given limiter.
+ * The result of each check is available to downstream handlers as c.get("rateLimit").
+ *
+ * @param options - Limiter, identifier extraction and response handling
+ * @returns Hono middleware
+ *
+ * @example
+ * import { getConnInfo } from "hono/bun";
+ * import { RateLimiter } from "@rabbit-company/rate-limiter";
+ * import { rateLimit, ipIdentifier } from "@rabbit-company/rate-limiter/hono";
+ *
+ * const limiter = new RateLimiter({ max: 100, window: 60_000 });
+ * app.use("*", rateLimit({ limiter, identifier: ipIdentifier(getConnInfo) }));
+ */
+export function rateLimit(options: HonoRateLimitOptions): MiddlewareHandler<{ Variables: RateLimitVariables }> {
+	const { endpoint = "path" } = options;
+	const check = createChecker(options, (c) => getEndpoint(c, endpoint));
+
+	return async (c, next) => {
+		const { result, headers, response } = await check(c);
+		if (!result) return next();
+
+		c.set("rateLimit", result);
+		for (const [name, value] of Object.entries(headers)) c.header(name, value);
+
+		if (result.limited) return response ?? c.json(getLimitedBody(result), 429);
+		await next();
+	};
+}
+
+/**
+ * Identifies callers by the remote address reported by the runtime adapter.
+ * @param getConnInfo - getConnInfo of the runtime, e.g. from "hono/bun" or "hono/deno"
+ */
+export function ipIdentifier(getConnInfo: GetConnInfo): (c: Context) => string {
+	return (c) => getConnInfo(c).remote.address || "";
+}
+
+/**
+ * Identifies callers by a request header, e.g. an API key or a proxy's client IP header.
+ * @param name - Name of the header
+ */
+export function headerIdentifier(name: string): (c: Context) => string {
+	return (c) => c.req.header(name) || "";
+}
+
+/**
+ * Identifies callers by a context variable set by earlier middleware, e.g. the authenticated user ID.
+ * @param key - Name of the context variable
+ */
+export function contextIdentifier(key: string): (c: Context) => string {
+	return (c) => String(c.get(key) ?? "");
+}
+
+/**
+ * Derives the endpoint passed to the limiter.
+ */
+function getEndpoint(c: Context, endpoint: NonNullable<HonoRateLimitOptions["endpoint"]>): MaybePromise<string> {
+	if (typeof endpoint === "function") return endpoint(c);
+	if (endpoint === "path") return c.req.path;
+
+	// The matched routes include middleware, which take next as their second parameter
+	const route = c.req.matchedRoutes.findLast((route) => route.handler.length < 2);
+	return route?.path ?? c.req.path;
+}
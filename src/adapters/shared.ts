@@ -0,0 +1,113 @@
+import type { RateLimiter } from "../index";
+import type { MaybePromise, RateLimitHeadersOptions, RateLimitResult } from "../types";
+
+/**
+ * Headers set when the headers option is true.
+ */
+const LEGACY_HEADERS: RateLimitHeadersOptions = { standard: false, legacy: true };
+
+/**
+ * Options shared by all framework adapters.
+ * @template C - Request context of the framework, e.g. a Hono Context or an Express request
+ * @template R - Value returned for limited requests
+ */
+export interface AdapterOptions<C, R> {
+	/**
+	 * Rate limiter checking the requests. It can be shared with other middleware or handlers.
+	 */
+	limiter: RateLimiter;
+	/**
+	 * Extracts the caller identifier from the request, e.g. the client IP, an API key or the authenticated user ID.
+	 */
+	identifier: (context: C) => MaybePromise<string>;
+	/**
+	 * Requests for which this returns true aren't rate limited.
+	 */
+	skip?: (context: C) => MaybePromise<boolean>;
+	/**
+	 * Creates the response for limited requests.
+	 * @default A 429 JSON response with the error and the time to wait
+	 */
+	onLimited?: (context: C, result: RateLimitResult) => MaybePromise<R>;
+	/**
+	 * Rate limit headers to set. true sets the legacy X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers
+	 * along with Retry-After, options select the headers formatted by RateLimiter.getHeaders, e.g. the IETF RateLimit headers.
+	 * @default true
+	 */
+	headers?: boolean | RateLimitHeadersOptions;
+}
+
+/**
+ * Outcome of checking a request.
+ * @template R - Value returned for limited requests
+ */
+export interface CheckOutcome<R> {
+	/**
+	 * Result of the check, undefined if the request was skipped.
+	 */
+	result?: RateLimitResult;
+	/**
+	 * Headers to add to the response.
+	 */
+	headers: Record<string, string>;
+	/**
+	 * Response for a limited request, undefined if the request may proceed or onLimited isn't configured.
+	 */
+	response?: R;
+}
+
+/**
+ * Body of the default response for limited requests.
+ */
+export interface LimitedBody {
+	/**
+	 * Error message.
+	 */
+	error: string;
+	/**
+	 * Time to wait before retrying, e.g. "5 seconds". Omitted for denied requests, which never become allowed.
+	 */
+	retryAfter?: string;
+}
+
+/**
+ * Creates the function checking requests, which each adapter wraps for its framework.
+ *
+ * @param options - Options passed to the adapter
+ * @param endpoint - Derives the endpoint passed to the limiter
+ * @returns Function checking a request and returning the headers and the response to send
+ */
+export function createChecker<C, R>(options: AdapterOptions<C, R>, endpoint: (context: C) => MaybePromise<string>): (context: C) => Promise<CheckOutcome<R>> {
+	const { limiter, identifier, skip, onLimited, headers = true } = options;
+
+	return async (context) => {
+		if (skip && (await skip(context))) return { headers: {} };
+
+		const result = await limiter.checkAsync(await endpoint(context), await identifier(context));
+		const outcome: CheckOutcome<R> = { result, headers: headers ? limiter.getHeaders(result, headers === true ? LEGACY_HEADERS : headers) : {} };
+
+		if (result.limited && onLimited) outcome.response = await onLimited(context, result);
+		return outcome;
+	};
+}
+
+/**
+ * Gets the body of the default 429 response.
+ * @param result - Result of the rate limit check
+ */
+export function getLimitedBody(result: RateLimitResult): LimitedBody {
+	if (result.denied) return { error: "Access denied" };
+
+	return {
+		error: "Too many requests",
+		retryAfter: `${Math.ceil(result.retryAfter / 1000)} seconds`,
+	};
+}
+
+/**
+ * Gets the first value of a Node.js style header, which is an array when sent several times.
+ * @param value - Header value
+ */
+export function getHeaderValue(value: string | string[] | undefined): string {
+	return (Array.isArray(value) ? value[0] : value) || "";
+}
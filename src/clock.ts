@@ -0,0 +1,153 @@
+import type { Clock, Scheduler } from "./types";
+
+/**
+ * The default clock reading the system time.
+ */
+export const systemClock: Clock = {
+	now: () => Date.now(),
+};
+
+/**
+ * The default scheduler using the global timers.
+ * Intervals don't keep the process alive where the runtime supports unref.
+ */
+export const systemScheduler: Scheduler = {
+	setInterval(callback, ms) {
+		const handle = setInterval(callback, ms);
+		(handle as { unref?: () => void }).unref?.();
+		return handle;
+	},
+	clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * A timer registered with a ManualClock.
+ */
+interface ManualTimer {
+	callback: () => void;
+	dueAt: number;
+	interval?: number;
+}
+
+/**
+ * A clock and scheduler that only move forward when told to, for deterministic tests.
+ * Timers run synchronously while advancing, in the order they are due.
+ *
+ * @example
+ * const clock = new ManualClock();
+ * const limiter = new RateLimiter({ max: 1, window: 1000, clock, scheduler: clock });
+ *
+ * limiter.check("/api", "user1");
+ * clock.advance(1000); // Also runs the cleanup
+ * limiter.check("/api", "user1").limited; // false
+ */
+export class ManualClock implements Clock, Scheduler {
+	/**
+	 * Current time in milliseconds since epoch.
+	 * @private
+	 */
+	private time: number;
+
+	/**
+	 * Pending timers by their handle.
+	 * @private
+	 */
+	private readonly timers: Map<number, ManualTimer> = new Map();
+
+	/**
+	 * Handle of the next registered timer.
+	 * @private
+	 */
+	private nextHandle = 1;
+
+	/**
+	 * Creates a manual clock.
+	 * @param time - Initial time in milliseconds since epoch
+	 */
+	constructor(time = 0) {
+		this.time = time;
+	}
+
+	public now(): number {
+		return this.time;
+	}
+
+	/**
+	 * Moves the clock forward, running the timers that become due on the way.
+	 * @param ms - Milliseconds to move forward
+	 * @throws {RangeError} If ms is negative
+	 */
+	public advance(ms: number): void {
+		if (ms < 0) throw new RangeError(`Cannot move the clock backwards: ${ms}`);
+		const target = this.time + ms;
+
+		for (let next = this.nextTimer(target); next; next = this.nextTimer(target)) {
+			const [handle, timer] = next;
+			this.time = timer.dueAt;
+
+			if (timer.interval === undefined) {
+				this.timers.delete(handle);
+			} else {
+				timer.dueAt += timer.interval;
+			}
+			timer.callback();
+		}
+
+		this.time = target;
+	}
+
+	/**
+	 * Moves the clock forward to a point in time, running the timers that become due on the way.
+	 * @param time - Time in milliseconds since epoch
+	 */
+	public set(time: number): void {
+		this.advance(time - this.time);
+	}
+
+	/**
+	 * Gets the number of pending timers.
+	 */
+	public getTimerCount(): number {
+		return this.timers.size;
+	}
+
+	public setInterval(callback: () => void, ms: number): number {
+		return this.addTimer({ callback, dueAt: this.time + Math.max(ms, 1), interval: Math.max(ms, 1) });
+	}
+
+	public clearInterval(handle: unknown): void {
+		this.timers.delete(handle as number);
+	}
+
+	public setTimeout(callback: () => void, ms: number): number {
+		return this.addTimer({ callback, dueAt: this.time + Math.max(ms, 0) });
+	}
+
+	public clearTimeout(handle: unknown): void {
+		this.timers.delete(handle as number);
+	}
+
+	/**
+	 * Registers a timer.
+	 * @private
+	 */
+	private addTimer(timer: ManualTimer): number {
+		const handle = this.nextHandle++;
+		this.timers.set(handle, timer);
+		return handle;
+	}
+
+	/**
+	 * Finds the timer due first, if any is due by target.
+	 * @private
+	 */
+	private nextTimer(target: number): [number, ManualTimer] | undefined {
+		let next: [number, ManualTimer] | undefined;
+		for (const entry of this.timers) {
+			if (entry[1].dueAt <= target && (!next || entry[1].dueAt < next[1].dueAt)) next = entry;
+		}
+		return next;
+	}
+}
@@ -0,0 +1,98 @@
+import { Algorithm, type RateLimitConfig, type RateLimitHeadersOptions, type RateLimitResult } from "./types";
+
+/**
+ * Quota policy of a limit as advertised in the RateLimit-Policy header.
+ */
+interface Policy {
+	/**
+	 * Name identifying the policy in the RateLimit header.
+	 */
+	name: string;
+	/**
+	 * Requests allowed within the window.
+	 */
+	quota: number;
+	/**
+	 * Window in seconds.
+	 */
+	window: number;
+}
+
+/**
+ * Formats the HTTP headers describing a rate limit result.
+ *
+ * The RateLimit-Policy header advertises one policy per limit, e.g. `"default";q=100;w=60`,
+ * and the RateLimit header their current state, e.g. `"default";r=42;t=30`.
+ * For token and leaky buckets the quota is the burst capacity and the window the time to refill or drain it fully.
+ * Denied results get no headers, as they have no quota left to describe and nothing to wait for.
+ *
+ * @param result - Result of the rate limit check
+ * @param config - Config of the limiter that produced the result, including its defaults
+ * @param options - Headers to include
+ * @returns Header names mapped to their values
+ */
+export function formatRateLimitHeaders(
+	result: RateLimitResult,
+	config: Readonly<RateLimitConfig>,
+	options: RateLimitHeadersOptions = {}
+): Record<string, string> {
+	const { standard = true, legacy = false, retryAfter = true } = options;
+	const now = config.clock!.now();
+	const headers: Record<string, string> = {};
+	if (result.denied) return headers;
+
+	if (standard) {
+		const name = getPolicyName(result);
+		const limits = result.limits ?? [result];
+		const policies = limits.map((limit, index) => getPolicy(limit, { ...config, ...config.limits?.[index] }, result.limits ? `${name}-${index}` : name));
+
+		headers["RateLimit-Policy"] = policies.map((policy) => `${formatString(policy.name)};q=${policy.quota};w=${policy.window}`).join(", ");
+		headers["RateLimit"] = limits
+			.map((limit, index) => `${formatString(policies[index]!.name)};r=${limit.remaining};t=${toSeconds(limit.reset - now)}`)
+			.join(", ");
+	}
+
+	if (legacy) {
+		headers["X-RateLimit-Limit"] = result.limit.toString();
+		headers["X-RateLimit-Remaining"] = result.remaining.toString();
+		headers["X-RateLimit-Reset"] = Math.ceil(result.reset / 1000).toString();
+	}
+
+	if (retryAfter && result.limited) headers["Retry-After"] = toSeconds(result.retryAfter).toString();
+	return headers;
+}
+
+/**
+ * Describes the quota policy of a limit.
+ */
+function getPolicy(result: RateLimitResult, config: Readonly<RateLimitConfig>, name: string): Policy {
+	switch (config.algorithm) {
+		case Algorithm.TOKEN_BUCKET:
+			return { name, quota: result.limit, window: toSeconds((result.limit / config.refillRate!) * config.refillInterval!, 1) };
+		case Algorithm.LEAKY_BUCKET:
+			return { name, quota: result.limit, window: toSeconds((result.limit / config.leakRate!) * config.leakInterval!, 1) };
+		default:
+			return { name, quota: result.limit, window: toSeconds(result.window, 1) };
+	}
+}
+
+/**
+ * Names the policy after the tier and rule that applied to the request.
+ */
+function getPolicyName(result: RateLimitResult): string {
+	return [result.tier, result.rule].filter((name) => name !== undefined).join("-") || "default";
+}
+
+/**
+ * Formats a structured field string, escaping quotes and backslashes.
+ */
+function formatString(value: string): string {
+	return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Rounds milliseconds up to whole seconds, as the headers don't allow fractions.
+ */
+function toSeconds(ms: number, min = 0): number {
+	return Math.max(Math.ceil(ms / 1000), min);
+}
@@ -1,4 +1,66 @@
-import { Algorithm, type Entry, type RateLimitConfig, type RateLimitResult, type StoreKey } from "./types";
+import { MemoryStore } from "./stores/memory";
+import { RedisStore } from "./stores/redis";
+import { formatRateLimitHeaders } from "./headers";
+import { formatMetrics } from "./metrics";
+import { formatIp, isInRange, maskIp, parseCidr, parseIp, unmapIpv4, type IpRange } from "./ip";
+import { ManualClock, systemClock, systemScheduler } from "./clock";
+import {
+	Algorithm,
+	EvictionPolicy,
+	FailureMode,
+	MatchType,
+	type CheckOptions,
+	type Clock,
+	type EndpointStats,
+	type Entry,
+	type EntryCreatedEvent,
+	type EntryRemovedEvent,
+	type IdentifierNormalization,
+	type IdentifierPattern,
+	type MaybePromise,
+	type LimitConfig,
+	type MemoryStoreOptions,
+	type MetricsOptions,
+	type RateLimitConfig,
+	type RateLimitHeadersOptions,
+	type RateLimitResult,
+	type RateLimitEvent,
+	type RateLimitRule,
+	type RateLimitStore,
+	type RateLimiterEvents,
+	type RateLimiterListener,
+	type RateLimiterSnapshot,
+	type RateLimiterStats,
+	type RedisClient,
+	type RedisStoreOptions,
+	type RefundOptions,
+	type RequestStats,
+	type RuleConfig,
+	type Scheduler,
+	type SnapshotEntry,
+	type StoreKey,
+	type TierConfig,
+} from "./types";
+
+/**
+ * A configured rule along with the limiter applying it.
+ */
+interface RuleLimiter {
+	matches(endpoint: string, identifier: string): boolean;
+	limiter: RateLimiter;
+}
+
+/**
+ * Counters of a rate limiter, shared with the limiters of its rules, limits and tiers.
+ */
+interface Counters extends Omit<RateLimiterStats, "size" | "endpoints"> {
+	endpoints: Map<string, EndpointStats>;
+}
+
+/**
+ * Registered listeners per event.
+ */
+type Listeners = { [E in keyof RateLimiterEvents]: Set<RateLimiterListener<E>> };
 
 /**
  * Default rate limiter configuration:
@@ -6,21 +68,198 @@ import { Algorithm, type Entry, type RateLimitConfig, type RateLimitResult, type
  * - 60 requests per 60 seconds window
  * - Token bucket refill rate of 1 token per second (when used)
  * - 100ms precision for sliding window
+ * - Leaky bucket drain rate of 1 request per second (when used)
  * - Automatic cleanup every 30 seconds
+ * - No limit on the number of entries
+ * - Up to 1000 endpoints counted separately in the stats
+ * - Store failures in the asynchronous API are rethrown
+ * - System clock and global timers
  */
 const DEFAULT_CONFIG: Readonly<RateLimitConfig> = {
 	algorithm: Algorithm.FIXED_WINDOW,
 	window: 60_000,
 	max: 60,
+	consumeRejected: true,
 	refillRate: 1,
 	refillInterval: 1000,
 	precision: 100,
+	leakRate: 1,
+	leakInterval: 1000,
 	enableCleanup: true,
 	cleanupInterval: 30_000,
+	failureMode: FailureMode.THROW,
+	storeTimeout: 0,
+	tierCacheTtl: 60_000,
+	clock: systemClock,
+	scheduler: systemScheduler,
+	maxEntries: 0,
+	evictionPolicy: EvictionPolicy.EVICT,
+	maxStatsEndpoints: 1000,
 };
 
 /**
- * A configurable in-memory rate limiter supporting multiple algorithms.
+ * Tolerance for floating point errors when comparing fractional request counts.
+ */
+const FLOAT_TOLERANCE = 1e-9;
+
+/**
+ * Maximum number of cached tier resolutions. The oldest ones are dropped first.
+ */
+const TIER_CACHE_SIZE = 10_000;
+
+/**
+ * Rule name reported for requests that don't match any configured rule.
+ */
+const DEFAULT_RULE = "default";
+
+/**
+ * Endpoint name of the requests counted beyond maxStatsEndpoints endpoints.
+ */
+const OTHER_ENDPOINTS = "*";
+
+/**
+ * Format version of the snapshots created by export.
+ */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Copies an entry so it can be modified without affecting the stored one.
+ */
+function cloneEntry(entry: Entry): Entry {
+	return entry.buckets ? { ...entry, buckets: new Map(entry.buckets) } : { ...entry };
+}
+
+/**
+ * Converts an entry into its JSON-safe snapshot form.
+ */
+function toSnapshotEntry(entry: Entry): SnapshotEntry {
+	const { buckets, tier, ...fields } = entry;
+	return buckets ? { ...fields, buckets: [...buckets] } : fields;
+}
+
+/**
+ * Converts a snapshot entry back into an entry.
+ */
+function fromSnapshotEntry(entry: SnapshotEntry): Entry {
+	const { buckets, ...fields } = entry;
+	return buckets ? { ...fields, buckets: new Map(buckets) } : { ...fields };
+}
+
+/**
+ * Creates a function testing values against a rule pattern.
+ * Omitted patterns match every value.
+ */
+function createMatcher(pattern: string | undefined, match: MatchType): (value: string) => boolean {
+	if (pattern === undefined) return () => true;
+
+	switch (match) {
+		case MatchType.PREFIX:
+			return (value) => value.startsWith(pattern);
+		case MatchType.GLOB:
+			const source = pattern
+				.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+				.replace(/\*/g, ".*")
+				.replace(/\?/g, ".");
+			const regex = new RegExp(`^${source}$`, "s");
+			return (value) => regex.test(value);
+		case MatchType.EXACT:
+		default:
+			return (value) => value === pattern;
+	}
+}
+
+/**
+ * Creates a function testing whether a request matches any pattern of an allowlist or denylist.
+ * Exact identifiers and predicates match the normalized identifier, while IP addresses and CIDR ranges
+ * match every textual form of the addresses they cover, parsed from the identifier as passed.
+ * @throws {Error} If a CIDR range has an invalid prefix length
+ */
+function createListMatcher(patterns: IdentifierPattern[]): ((identifier: string, normalized: string, endpoint: string) => boolean) | undefined {
+	if (patterns.length === 0) return undefined;
+
+	const identifiers = new Set<string>();
+	const ranges: IpRange[] = [];
+	const predicates: ((identifier: string, endpoint: string) => boolean)[] = [];
+
+	for (const pattern of patterns) {
+		if (typeof pattern === "function") {
+			predicates.push(pattern);
+			continue;
+		}
+
+		const range = parseCidr(pattern);
+		if (range) {
+			ranges.push(range);
+		} else {
+			identifiers.add(pattern);
+		}
+	}
+
+	return (identifier, normalized, endpoint) => {
+		if (identifiers.has(normalized)) return true;
+
+		// Normalized IPv6 addresses may be collapsed to their network, so ranges parse the identifier as passed
+		const address = ranges.length > 0 ? parseIp(identifier) : undefined;
+		if (address && ranges.some((range) => isInRange(address, range))) return true;
+
+		return predicates.some((predicate) => predicate(normalized, endpoint));
+	};
+}
+
+/**
+ * Creates a function normalizing identifiers into the form they take in the store keys.
+ * @throws {Error} If the IPv6 prefix length is invalid
+ */
+function createNormalizer(options: IdentifierNormalization): (identifier: string) => string {
+	const { ipv6Prefix = 128, ipv4Mapped = true, lowercase = false, custom } = options;
+	if (!Number.isInteger(ipv6Prefix) || ipv6Prefix < 0 || ipv6Prefix > 128) {
+		throw new Error(`Invalid IPv6 prefix length: ${ipv6Prefix}`);
+	}
+
+	return (identifier) => {
+		let normalized = lowercase ? identifier.toLowerCase() : identifier;
+
+		const address = parseIp(normalized);
+		if (address) {
+			const ipv4 = ipv4Mapped ? unmapIpv4(address) : undefined;
+			if (ipv4) {
+				normalized = formatIp(ipv4);
+			} else if (address.version === 6 && ipv6Prefix < 128) {
+				normalized = `${formatIp(maskIp(address, ipv6Prefix))}/${ipv6Prefix}`;
+			} else {
+				normalized = formatIp(address);
+			}
+		}
+
+		return custom ? custom(normalized) : normalized;
+	};
+}
+
+/**
+ * Combines the results of several store operations, waiting for them only when one is a promise.
+ */
+function all<T>(values: MaybePromise<T>[]): MaybePromise<T[]> {
+	return values.some(isPromise) ? Promise.all(values) : (values as T[]);
+}
+
+/**
+ * Checks whether a store operation returned a promise.
+ */
+function isPromise<T>(value: MaybePromise<T>): value is Promise<T> {
+	return typeof (value as Promise<T>)?.then === "function";
+}
+
+/**
+ * Passes the result of a store operation to fn, waiting for it first when it is a promise.
+ * Allows the same algorithm code to serve both synchronous and asynchronous stores.
+ */
+function chain<T, R>(value: MaybePromise<T>, fn: (value: T) => MaybePromise<R>): MaybePromise<R> {
+	return isPromise(value) ? value.then(fn) : fn(value);
+}
+
+/**
+ * A configurable rate limiter supporting multiple algorithms and pluggable storage.
+ * Entries are kept in memory unless a custom store is provided.
  *
  * @example
  * // Fixed window: 100 requests per minute
@@ -35,6 +274,14 @@ const DEFAULT_CONFIG: Readonly<RateLimitConfig> = {
  * });
  *
  * @example
+ * // Sliding window counter: 1000 requests per minute with constant memory
+ * const limiter = new RateLimiter({
+ *   algorithm: Algorithm.SLIDING_WINDOW_COUNTER,
+ *   max: 1000,
+ *   window: 60_000
+ * });
+ *
+ * @example
  * // Token bucket: Burst of 10, sustained 2 requests per second
  * const limiter = new RateLimiter({
  *   algorithm: Algorithm.TOKEN_BUCKET,
@@ -42,13 +289,57 @@ const DEFAULT_CONFIG: Readonly<RateLimitConfig> = {
  *   refillRate: 2,
  *   refillInterval: 1000
  * });
+ *
+ * @example
+ * // Leaky bucket: Queue of 5, drained at 10 requests per second
+ * const limiter = new RateLimiter({
+ *   algorithm: Algorithm.LEAKY_BUCKET,
+ *   max: 5,
+ *   leakRate: 10,
+ *   leakInterval: 1000
+ * });
+ *
+ * @example
+ * // GCRA: 100 requests per minute, spaced at least 600ms apart once the burst is used
+ * const limiter = new RateLimiter({
+ *   algorithm: Algorithm.GCRA,
+ *   max: 100,
+ *   window: 60_000
+ * });
+ *
+ * @example
+ * // Custom storage backend
+ * const limiter = new RateLimiter({ store: new MemoryStore() });
+ *
+ * @example
+ * // 10 requests per second and 1000 per hour
+ * const limiter = new RateLimiter({
+ *   limits: [
+ *     { max: 10, window: 1000 },
+ *     { max: 1000, window: 3_600_000 }
+ *   ]
+ * });
+ *
+ * @example
+ * // Quotas depending on the plan of the API key
+ * const limiter = new RateLimiter({
+ *   tiers: { free: { max: 100 }, pro: { max: 10_000 } },
+ *   resolveTier: async (apiKey) => (await db.getPlan(apiKey)) ?? "free"
+ * });
+ *
+ * @example
+ * // Stricter limits for logins, 100 requests per minute elsewhere
+ * const limiter = new RateLimiter({
+ *   max: 100,
+ *   rules: [{ name: "login", endpoint: "/api/login", max: 5 }]
+ * });
  */
 export class RateLimiter {
 	/**
-	 * Internal store for tracking rate limit entries.
+	 * Store for tracking rate limit entries.
 	 * @private
 	 */
-	private readonly store: Map<StoreKey, Entry> = new Map();
+	private readonly store: RateLimitStore;
 
 	/**
 	 * The active configuration for this rate limiter instance.
@@ -61,7 +352,91 @@ export class RateLimiter {
 	 * Timer for periodic cleanup of expired entries.
 	 * @private
 	 */
-	private cleanupInterval?: NodeJS.Timeout;
+	private cleanupInterval?: unknown;
+
+	/**
+	 * Limiters applying the configured rules, in matching order.
+	 * They share the store of this limiter.
+	 * @private
+	 */
+	private readonly rules: RuleLimiter[];
+
+	/**
+	 * Tests whether a request is on the allowlist, undefined when the allowlist is empty.
+	 * @private
+	 */
+	private readonly isAllowed?: (identifier: string, normalized: string, endpoint: string) => boolean;
+
+	/**
+	 * Tests whether a request is on the denylist, undefined when the denylist is empty.
+	 * @private
+	 */
+	private readonly isDenied?: (identifier: string, normalized: string, endpoint: string) => boolean;
+
+	/**
+	 * Normalizes identifiers into the form they take in the store keys, undefined to use them verbatim.
+	 * @private
+	 */
+	private readonly normalize?: (identifier: string) => string;
+
+	/**
+	 * Name of the rule applied by this limiter, reported in results.
+	 * Undefined when no rules are configured.
+	 * @private
+	 */
+	private ruleName?: string;
+
+	/**
+	 * Limiters enforcing the configured limits together.
+	 * They share the store of this limiter.
+	 * @private
+	 */
+	private readonly limits: RateLimiter[];
+
+	/**
+	 * Suffix added to store keys, keeping the entries of each limit and tier apart.
+	 * @private
+	 */
+	private keySuffix = "";
+
+	/**
+	 * Name of the tier applied by this limiter, reported in results and entries.
+	 * @private
+	 */
+	private tierName?: string;
+
+	/**
+	 * Limiters applying the configured tiers, created on first use.
+	 * @private
+	 */
+	private readonly tierLimiters: Map<string, RateLimiter> = new Map();
+
+	/**
+	 * Cached tier resolutions by identifier.
+	 * @private
+	 */
+	private readonly tierCache: Map<string, { limiter: MaybePromise<RateLimiter>; expiresAt: number }> = new Map();
+
+	/**
+	 * Request and entry counters, shared with the limiters of rules, limits and tiers.
+	 * @private
+	 */
+	private counters: Counters = {
+		checks: 0,
+		limited: 0,
+		endpoints: new Map(),
+		evictions: 0,
+		expirations: 0,
+		cleanups: 0,
+		cleanupDuration: 0,
+		rejections: 0,
+	};
+
+	/**
+	 * Event listeners, shared with the limiters of rules, limits and tiers.
+	 * @private
+	 */
+	private listeners: Listeners = { allowed: new Set(), limited: new Set(), entryCreated: new Set(), entryExpired: new Set(), entryEvicted: new Set() };
 
 	/**
 	 * Creates a new rate limiter instance with optional configuration.
@@ -82,199 +457,923 @@ export class RateLimiter {
 	 */
 	constructor(config: Partial<RateLimitConfig> = {}) {
 		this.config = { ...DEFAULT_CONFIG, ...config };
+		this.store = this.config.store || new MemoryStore(this.getMemoryStoreOptions());
+		if (this.config.maxEntries! > 0 && this.config.evictionPolicy === EvictionPolicy.LIMIT && !this.store.tracksSize) {
+			throw new Error("EvictionPolicy.LIMIT requires a store that tracks its size, such as MemoryStore");
+		}
+		this.isAllowed = createListMatcher(this.config.allowlist ?? []);
+		this.isDenied = createListMatcher(this.config.denylist ?? []);
+		if (this.config.identifierNormalization) this.normalize = createNormalizer(this.config.identifierNormalization);
+		this.rules = (this.config.rules ?? []).map((rule) => this.createRule(rule));
+		this.limits = (this.config.limits ?? []).map((limit, index) => {
+			const limiter = new RateLimiter({
+				...this.config,
+				...limit,
+				limits: [],
+				rules: [],
+				tiers: {},
+				resolveTier: undefined,
+				store: this.store,
+				enableCleanup: false,
+			});
+			limiter.keySuffix = `#${index}`;
+			return this.share(limiter);
+		});
+		if (this.rules.length > 0) this.ruleName = DEFAULT_RULE;
 
-		if (this.config.enableCleanup) {
+		if (this.config.enableCleanup && !this.store.handlesExpiry) {
 			this.setupCleanupInterval(this.config.cleanupInterval!);
 		}
 	}
 
 	/**
-	 * Initializes the periodic cleanup of expired entries.
-	 * @param intervalMs - How often to run cleanup in milliseconds
+	 * Gets the options of the default memory store. It only evicts entries when the evictionPolicy is EVICT.
 	 * @private
 	 */
-	private setupCleanupInterval(intervalMs: number): void {
-		this.cleanupInterval = setInterval(() => {
-			this.cleanupExpiredEntries();
-		}, intervalMs).unref?.();
+	private getMemoryStoreOptions(): MemoryStoreOptions {
+		if (this.config.evictionPolicy !== EvictionPolicy.EVICT) return {};
+
+		return {
+			maxEntries: this.config.maxEntries,
+			onEvict: (key, entry) => {
+				this.counters.evictions++;
+				this.emit("entryEvicted", { key, entry });
+			},
+		};
 	}
 
 	/**
-	 * Removes expired entries from the store based on their resetTime.
+	 * Makes a child limiter report to the counters and listeners of this limiter.
 	 * @private
 	 */
-	private cleanupExpiredEntries(): void {
-		const now = Date.now();
-		for (const [key, entry] of this.store.entries()) {
-			if (entry.resetTime <= now) {
-				this.store.delete(key);
-			}
-		}
+	private share(limiter: RateLimiter): RateLimiter {
+		limiter.counters = this.counters;
+		limiter.listeners = this.listeners;
+		return limiter;
 	}
 
 	/**
-	 * Creates a new rate limit entry with default values.
-	 * @param now - Current timestamp in milliseconds
-	 * @returns New entry initialized for the current window
+	 * Creates the limiter applying a rule along with its matcher.
 	 * @private
 	 */
-	private createNewEntry(now: number): Entry {
-		return {
-			count: 0,
-			resetTime: now + this.config.window!,
-		};
+	private createRule(rule: RateLimitRule): RuleLimiter {
+		const { name, endpoint, identifier, match = MatchType.EXACT, ...overrides } = rule;
+		const matchesEndpoint = createMatcher(endpoint, match);
+		const matchesIdentifier = createMatcher(identifier, match);
+
+		// The tier is resolved once, by the limiter the rule belongs to
+		const limiter = new RateLimiter({
+			...this.config,
+			limits: [],
+			...overrides,
+			rules: [],
+			tiers: {},
+			resolveTier: undefined,
+			store: this.store,
+			enableCleanup: false,
+		});
+		limiter.ruleName = name;
+
+		return { matches: (endpoint, identifier) => matchesEndpoint(endpoint) && matchesIdentifier(identifier), limiter: this.share(limiter) };
 	}
 
 	/**
-	 * Checks if a request should be rate limited for the given endpoint and identifier.
-	 *
-	 * @param endpoint - The API endpoint being accessed (e.g., "/api/login")
-	 * @param identifier - Unique caller identifier (e.g., IP address or user ID)
-	 * @returns Rate limit status including remaining requests and reset time
-	 *
-	 * @example
-	 * const result = limiter.check("/api/login", "192.168.1.1");
-	 * if (result.limited) {
-	 *   throw new Error(`Rate limited. Try again in ${Math.ceil((result.reset - Date.now())/1000)}s`);
-	 * }
+	 * Finds the limiter applying to endpoint and identifier, resolving the tier of the identifier first.
+	 * @private
 	 */
-	public check(endpoint: string, identifier: string): RateLimitResult {
-		const now = Date.now();
-		const key = this.generateKey(endpoint, identifier);
+	private selectLimiter(endpoint: string, identifier: string): MaybePromise<RateLimiter> {
+		if (!this.config.resolveTier) return this.selectRule(endpoint, identifier);
 
-		switch (this.config.algorithm) {
-			case Algorithm.FIXED_WINDOW:
-				return this.checkFixedWindow(key, now);
-			case Algorithm.SLIDING_WINDOW:
-				return this.checkSlidingWindow(key, now);
-			case Algorithm.TOKEN_BUCKET:
-				return this.checkTokenBucket(key, now);
-			default:
-				throw new Error(`Unknown algorithm: ${this.config.algorithm}`);
-		}
+		return chain(this.selectTier(identifier), (limiter) => limiter.selectRule(endpoint, identifier));
 	}
 
 	/**
-	 * Fixed window rate limit algorithm implementation.
-	 * Simple counter that resets after each window.
+	 * Finds the limiter whose rule applies to endpoint and identifier.
+	 * @returns The limiter of the first matching rule, or this limiter if none matches
 	 * @private
 	 */
-	private checkFixedWindow(key: StoreKey, now: number): RateLimitResult {
-		const entry = this.getOrCreateEntry(key, now);
+	private selectRule(endpoint: string, identifier: string): RateLimiter {
+		return this.rules.find((rule) => rule.matches(endpoint, identifier))?.limiter ?? this;
+	}
 
-		if (entry.resetTime <= now) {
-			entry.count = 0;
-			entry.resetTime = now + this.config.window!;
-		}
+	/**
+	 * Finds the limiter applying the tier of identifier, using the cached resolution while it lasts.
+	 * @returns The limiter of the tier, or this limiter if the identifier has none
+	 * @private
+	 */
+	private selectTier(identifier: string): MaybePromise<RateLimiter> {
+		const now = this.config.clock!.now();
+		const cached = this.tierCache.get(identifier);
+		if (cached && cached.expiresAt > now) return cached.limiter;
 
-		entry.count! += 1;
+		const limiter = chain(this.config.resolveTier!(identifier), (tier) => this.getTierLimiter(tier));
+		if (this.config.tierCacheTtl! <= 0) return limiter;
 
-		this.store.set(key, entry);
-		return this.createRateLimitResult(entry);
+		// Forget the resolution when it fails, so the next request retries it
+		if (isPromise(limiter)) limiter.catch(() => this.tierCache.delete(identifier));
+
+		this.tierCache.delete(identifier);
+		if (this.tierCache.size >= TIER_CACHE_SIZE) {
+			this.tierCache.delete(this.tierCache.keys().next().value!);
+		}
+		this.tierCache.set(identifier, { limiter, expiresAt: now + this.config.tierCacheTtl! });
+		return limiter;
 	}
 
 	/**
-	 * Sliding window rate limit algorithm implementation.
-	 * Tracks exact request timestamps for more precise limiting.
+	 * Gets the limiter applying a resolved tier.
+	 * @throws {Error} If the tier name isn't configured in tiers
 	 * @private
 	 */
-	private checkSlidingWindow(key: StoreKey, now: number): RateLimitResult {
-		let entry = this.store.get(key) || {
-			count: 0,
-			buckets: new Map<number, number>(),
-			resetTime: now + this.config.window!,
-		};
+	private getTierLimiter(tier: string | TierConfig | undefined): RateLimiter {
+		if (tier === undefined) return this;
+		if (typeof tier !== "string") return this.createTierLimiter(tier);
 
-		const precision = this.config.precision!;
-		const roundedNow = Math.floor(now / precision) * precision;
+		let limiter = this.tierLimiters.get(tier);
+		if (!limiter) {
+			const overrides = this.config.tiers?.[tier];
+			if (!overrides) throw new Error(`Unknown tier: ${tier}`);
 
-		// Remove timestamps outside the current window
-		const windowStart = roundedNow - this.config.window!;
-		let totalCount = 0;
+			limiter = this.createTierLimiter({ ...overrides, name: tier });
+			this.tierLimiters.set(tier, limiter);
+		}
+		return limiter;
+	}
 
-		entry.buckets!.forEach((count, timestamp) => {
-			if (timestamp > windowStart) {
-				totalCount += count;
-			} else {
-				entry.buckets!.delete(timestamp);
-			}
+	/**
+	 * Creates the limiter applying a tier. It keeps the rules of this limiter.
+	 * @private
+	 */
+	private createTierLimiter(tier: TierConfig): RateLimiter {
+		const { name, ...overrides } = tier;
+		const limiter = new RateLimiter({
+			...this.config,
+			limits: [],
+			...overrides,
+			tiers: {},
+			resolveTier: undefined,
+			store: this.store,
+			enableCleanup: false,
 		});
+		limiter.assignTier(name);
+		return this.share(limiter);
+	}
 
-		const currentCount = (entry.buckets!.get(roundedNow) || 0) + 1;
-		entry.buckets!.set(roundedNow, currentCount);
-		totalCount += 1;
-
-		entry.count = totalCount;
+	/**
+	 * Sets the tier reported by this limiter and the limiters of its rules and limits.
+	 * Their keys get the tier name, as an identifier moving to another tier may change algorithm.
+	 * @private
+	 */
+	private assignTier(name: string): void {
+		this.tierName = name;
+		this.keySuffix = `@${name}${this.keySuffix}`;
+		this.rules.forEach((rule) => rule.limiter.assignTier(name));
+		this.limits.forEach((limit) => limit.assignTier(name));
+	}
 
-		if (entry.buckets!.size > 0) {
-			const oldestTimestamp = Math.min(...entry.buckets!.keys());
-			entry.resetTime = oldestTimestamp + this.config.window!;
-		} else {
-			entry.resetTime = roundedNow + this.config.window!;
-		}
+	/**
+	 * Initializes the periodic cleanup of expired entries.
+	 * @param intervalMs - How often to run cleanup in milliseconds
+	 * @private
+	 */
+	private setupCleanupInterval(intervalMs: number): void {
+		this.cleanupInterval = this.config.scheduler!.setInterval(() => {
+			const start = performance.now();
+			const recordDuration = () => {
+				this.counters.cleanups++;
+				this.counters.cleanupDuration += performance.now() - start;
+			};
 
-		this.store.set(key, entry);
-		return this.createRateLimitResult(entry);
+			const result = this.cleanupExpiredEntries();
+			if (isPromise(result)) {
+				result.then(recordDuration, () => {});
+			} else {
+				recordDuration();
+			}
+		}, intervalMs);
 	}
 
 	/**
-	 * Token bucket rate limit algorithm implementation.
-	 * Allows bursts up to max capacity with steady refill rate.
+	 * Removes expired entries from the store based on their resetTime.
+	 * Scans every entry unless the store can find the expired ones by itself.
 	 * @private
 	 */
-	private checkTokenBucket(key: StoreKey, now: number): RateLimitResult {
-		let entry = this.store.get(key) || {
-			tokens: this.config.max!,
-			lastRefill: now,
-			resetTime: now + this.config.window!,
-		};
+	private cleanupExpiredEntries(): MaybePromise<void> {
+		const now = this.config.clock!.now();
+		if (this.store.deleteExpired) {
+			return chain(this.store.deleteExpired(now), (removed) => this.recordExpired(removed));
+		}
 
-		// Calculate how many tokens to add since last refill
-		const timePassed = now - entry.lastRefill!;
-		const tokensToAdd = Math.floor(timePassed / this.config.refillInterval!) * this.config.refillRate!;
+		const entries = this.store.entries();
+		const removed: [StoreKey, Entry][] = [];
 
-		if (tokensToAdd > 0) {
-			entry.tokens = Math.min(Math.max(entry.tokens! + tokensToAdd, tokensToAdd), this.config.max!);
-			entry.lastRefill = now;
+		if (Symbol.asyncIterator in entries) {
+			return (async () => {
+				for await (const [key, entry] of entries) {
+					if (entry.resetTime <= now) {
+						await this.store.delete(key);
+						removed.push([key, entry]);
+					}
+				}
+				this.recordExpired(removed);
+			})();
 		}
 
-		entry.tokens! -= 1;
-
-		this.store.set(key, entry);
-		return {
-			...this.createRateLimitResult(entry),
-			remaining: Math.max(Math.floor(entry.tokens!), 0),
-		};
+		for (const [key, entry] of entries) {
+			if (entry.resetTime <= now) {
+				this.store.delete(key);
+				removed.push([key, entry]);
+			}
+		}
+		this.recordExpired(removed);
 	}
 
 	/**
-	 * Generates a consistent store key from endpoint and identifier.
+	 * Counts the entries removed by the cleanup and emits an entryExpired event for each of them.
 	 * @private
 	 */
-	private generateKey(endpoint: string, identifier: string): StoreKey {
-		return `${endpoint}:${identifier}`;
+	private recordExpired(removed: [StoreKey, Entry][]): void {
+		this.counters.expirations += removed.length;
+		for (const [key, entry] of removed) {
+			this.emit("entryExpired", { key, entry });
+		}
 	}
 
 	/**
-	 * Retrieves an existing entry or creates a new one if expired/missing.
+	 * Unwraps the result of a store operation for the synchronous API.
+	 * @param source - What produced the value, named in the error
+	 * @throws {Error} If the store returned a promise
 	 * @private
 	 */
-	private getOrCreateEntry(key: StoreKey, now: number): Entry {
-		const existingEntry = this.store.get(key);
-		if (!existingEntry || existingEntry.resetTime <= now) {
-			return this.createNewEntry(now);
+	private resolveSync<T>(value: MaybePromise<T>, source = "store"): T {
+		if (isPromise(value)) {
+			value.catch(() => {});
+			throw new Error(`The configured ${source} is asynchronous and cannot be used with synchronous methods`);
 		}
-		return { ...existingEntry };
+		return value;
 	}
 
 	/**
-	 * Formats the rate limit result based on the current entry state.
+	 * Awaits a store operation for the asynchronous API.
+	 * Applies the configured storeTimeout and failureMode.
 	 * @private
 	 */
-	private createRateLimitResult(entry: Entry): RateLimitResult {
-		let limited: boolean;
+	private async resolveAsync(operation: () => MaybePromise<RateLimitResult>, now: number): Promise<RateLimitResult> {
+		try {
+			return await this.withTimeout(operation());
+		} catch (error) {
+			return this.handleFailure(error, now);
+		}
+	}
+
+	/**
+	 * Finds the limiter applying to endpoint and identifier for the asynchronous API.
+	 * A failing tier resolver is handled by the failureMode like a failing store.
+	 * @returns The limiter, or the result to respond with when the resolver failed
+	 * @private
+	 */
+	private async selectLimiterAsync(endpoint: string, identifier: string): Promise<RateLimiter | RateLimitResult> {
+		try {
+			return await this.selectLimiter(endpoint, identifier);
+		} catch (error) {
+			return this.handleFailure(error, this.config.clock!.now());
+		}
+	}
+
+	/**
+	 * Gets the result the failureMode gives when the store or the tier resolver failed.
+	 * @throws The error itself when the failureMode is THROW
+	 * @private
+	 */
+	private handleFailure(error: unknown, now: number): RateLimitResult {
+		switch (this.config.failureMode) {
+			case FailureMode.OPEN:
+				return this.createFailureResult(false, now);
+			case FailureMode.CLOSED:
+				return this.createFailureResult(true, now);
+			default:
+				throw error;
+		}
+	}
+
+	/**
+	 * Creates a result without consulting the store, e.g. when the store failed and the failureMode decides the outcome.
+	 * @param limited - Whether the request is limited
+	 * @private
+	 */
+	private createFailureResult(limited: boolean, now: number): RateLimitResult {
+		if (this.limits.length > 0) {
+			return this.combineResults(this.limits.map((limit) => limit.createFailureResult(limited, now)));
+		}
+
+		return {
+			limited,
+			remaining: limited ? 0 : this.config.max!,
+			reset: now + this.config.window!,
+			current: limited ? this.config.max! : 0,
+			limit: this.config.max!,
+			window: this.config.window!,
+			retryAfter: limited ? this.config.window! : 0,
+			timestamp: now,
+			...(this.ruleName !== undefined && { rule: this.ruleName }),
+			...(this.tierName !== undefined && { tier: this.tierName }),
+		};
+	}
+
+	/**
+	 * Rejects when a pending store operation takes longer than storeTimeout.
+	 * @private
+	 */
+	private withTimeout<T>(value: MaybePromise<T>): MaybePromise<T> {
+		const timeout = this.config.storeTimeout!;
+		if (!timeout || !isPromise(value)) return value;
+
+		const scheduler = this.config.scheduler!;
+		let timer: unknown;
+		const timeoutPromise = new Promise<never>((_, reject) => {
+			timer = scheduler.setTimeout(() => reject(new Error(`Store operation timed out after ${timeout}ms`)), timeout);
+		});
+
+		return Promise.race([value, timeoutPromise]).finally(() => scheduler.clearTimeout(timer));
+	}
+
+	/**
+	 * Creates a new rate limit entry with default values for the configured algorithm.
+	 * @param now - Current timestamp in milliseconds
+	 * @returns New entry initialized for the current window
+	 * @private
+	 */
+	private createNewEntry(now: number): Entry {
+		switch (this.config.algorithm) {
+			case Algorithm.SLIDING_WINDOW:
+				return {
+					count: 0,
+					buckets: new Map<number, number>(),
+					resetTime: now + this.config.window!,
+				};
+			case Algorithm.SLIDING_WINDOW_COUNTER:
+				const windowStart = Math.floor(now / this.config.window!) * this.config.window!;
+				return {
+					count: 0,
+					previousCount: 0,
+					windowStart,
+					resetTime: windowStart + this.config.window!,
+				};
+			case Algorithm.TOKEN_BUCKET:
+				return {
+					tokens: this.config.max!,
+					lastRefill: now,
+					resetTime: now,
+				};
+			case Algorithm.LEAKY_BUCKET:
+				return {
+					level: 0,
+					lastLeak: now,
+					resetTime: now,
+				};
+			case Algorithm.GCRA:
+				return {
+					tat: now,
+					resetTime: now,
+				};
+			default:
+				return {
+					count: 0,
+					resetTime: now + this.config.window!,
+				};
+		}
+	}
+
+	/**
+	 * Checks if a request should be rate limited for the given endpoint and identifier.
+	 *
+	 * @param endpoint - The API endpoint being accessed (e.g., "/api/login")
+	 * @param identifier - Unique caller identifier (e.g., IP address or user ID)
+	 * @param options - Cost of the request and whether it consumes anything when rejected, overriding the config
+	 * @returns Rate limit status including remaining requests and reset time
+	 * @throws {Error} If the configured store is asynchronous
+	 *
+	 * @example
+	 * const result = limiter.check("/api/login", "192.168.1.1");
+	 * if (result.limited) {
+	 *   throw new Error(`Rate limited. Try again in ${Math.ceil(result.retryAfter / 1000)}s`);
+	 * }
+	 *
+	 * @example
+	 * // Charge a GraphQL query by its complexity, without charging rejected queries
+	 * const result = limiter.check("/graphql", apiKey, { cost: complexity, consumeRejected: false });
+	 */
+	public check(endpoint: string, identifier: string, options: CheckOptions = {}): RateLimitResult {
+		const limiter = this.resolveSync(this.selectLimiter(endpoint, identifier), "tier resolver");
+		if (limiter !== this) return limiter.check(endpoint, identifier, options);
+
+		const result = this.resolveSync(this.checkAt(endpoint, identifier, this.config.clock!.now(), this.resolveCheckOptions(options)));
+		return this.recordResult(endpoint, identifier, result);
+	}
+
+	/**
+	 * Asynchronously checks if a request should be rate limited for the given endpoint and identifier.
+	 * Works with every store, including ones that perform I/O such as RedisStore.
+	 *
+	 * When the store or the tier resolver throws, or the store exceeds storeTimeout, the failureMode decides
+	 * whether the promise rejects (THROW), the request is allowed (OPEN) or the request is limited (CLOSED).
+	 *
+	 * @param endpoint - The API endpoint being accessed (e.g., "/api/login")
+	 * @param identifier - Unique caller identifier (e.g., IP address or user ID)
+	 * @param options - Cost of the request and whether it consumes anything when rejected
+	 * @returns Promise resolving to the rate limit status
+	 *
+	 * @example
+	 * const limiter = new RateLimiter({ store: new RedisStore({ client }) });
+	 * const result = await limiter.checkAsync("/api/login", "192.168.1.1");
+	 */
+	public async checkAsync(endpoint: string, identifier: string, options: CheckOptions = {}): Promise<RateLimitResult> {
+		const limiter = await this.selectLimiterAsync(endpoint, identifier);
+		if (!(limiter instanceof RateLimiter)) return this.recordResult(endpoint, identifier, limiter);
+		if (limiter !== this) return limiter.checkAsync(endpoint, identifier, options);
+
+		const now = this.config.clock!.now();
+		const consumeOptions = this.resolveCheckOptions(options);
+
+		const result = await this.resolveAsync(() => this.checkAt(endpoint, identifier, now, consumeOptions), now);
+		return this.recordResult(endpoint, identifier, result);
+	}
+
+	/**
+	 * Counts a checked request and emits an allowed or limited event for it.
+	 * @private
+	 */
+	private recordResult(endpoint: string, identifier: string, result: RateLimitResult): RateLimitResult {
+		const endpointStats = this.getEndpointStats(endpoint);
+		const algorithm = this.limits.length > 0 ? this.limits.map((limit) => limit.config.algorithm).join("+") : this.config.algorithm!;
+		const algorithmStats = (endpointStats.algorithms[algorithm] ??= { checks: 0, limited: 0 });
+
+		for (const stats of [this.counters, endpointStats, algorithmStats]) {
+			stats.checks++;
+			if (result.limited) stats.limited++;
+		}
+
+		this.emit(result.limited ? "limited" : "allowed", { endpoint, identifier, result });
+		return result;
+	}
+
+	/**
+	 * Gets the counters of an endpoint, or the shared counters of further endpoints once maxStatsEndpoints are counted.
+	 * @private
+	 */
+	private getEndpointStats(endpoint: string): EndpointStats {
+		const endpoints = this.counters.endpoints;
+		let stats = endpoints.get(endpoint);
+		if (!stats) {
+			const name = endpoints.size < this.config.maxStatsEndpoints! ? endpoint : OTHER_ENDPOINTS;
+			stats = endpoints.get(name) ?? { checks: 0, limited: 0, algorithms: {} };
+			endpoints.set(name, stats);
+		}
+		return stats;
+	}
+
+	/**
+	 * Matches a request against the denylist and the allowlist.
+	 * @returns The result of a denied or bypassed request, undefined if the request is on neither list
+	 * @private
+	 */
+	private matchLists(endpoint: string, identifier: string, now: number): RateLimitResult | undefined {
+		const normalized = this.normalize ? this.normalize(identifier) : identifier;
+		if (this.isDenied?.(identifier, normalized, endpoint)) return this.createDeniedResult(now);
+		if (this.isAllowed?.(identifier, normalized, endpoint)) return { ...this.createFailureResult(false, now), bypassed: true };
+		return undefined;
+	}
+
+	/**
+	 * Creates the result of a denied request. It never becomes allowed, so reset and retryAfter are Infinity,
+	 * and nothing counts towards the limits.
+	 * @private
+	 */
+	private createDeniedResult(now: number): RateLimitResult {
+		if (this.limits.length > 0) {
+			return { ...this.combineResults(this.limits.map((limit) => limit.createDeniedResult(now))), denied: true };
+		}
+
+		return {
+			limited: true,
+			remaining: 0,
+			reset: Infinity,
+			current: 0,
+			limit: this.config.max!,
+			window: this.config.window!,
+			retryAfter: Infinity,
+			timestamp: now,
+			denied: true,
+			...(this.ruleName !== undefined && { rule: this.ruleName }),
+			...(this.tierName !== undefined && { tier: this.tierName }),
+		};
+	}
+
+	/**
+	 * Records a request at the given time and formats its result.
+	 * @private
+	 */
+	private checkAt(endpoint: string, identifier: string, now: number, options: Required<CheckOptions>): MaybePromise<RateLimitResult> {
+		const listed = this.matchLists(endpoint, identifier, now);
+		if (listed) return listed;
+
+		if (this.config.maxEntries! > 0 && this.config.evictionPolicy === EvictionPolicy.LIMIT) {
+			return chain(this.isFull(endpoint, identifier), (full) => {
+				if (!full) return this.checkEntries(endpoint, identifier, now, options);
+
+				this.counters.rejections++;
+				return this.createFailureResult(true, now);
+			});
+		}
+
+		return this.checkEntries(endpoint, identifier, now, options);
+	}
+
+	/**
+	 * Checks whether the store holds maxEntries entries and none of them belongs to endpoint and identifier.
+	 * @private
+	 */
+	private isFull(endpoint: string, identifier: string): MaybePromise<boolean> {
+		const key = (this.limits[0] ?? this).generateKey(endpoint, identifier);
+
+		return chain(this.store.get(key), (entry) => !entry && chain(this.store.size(), (size) => size >= this.config.maxEntries!));
+	}
+
+	/**
+	 * Records a request against the entries of endpoint and identifier,
+	 * emitting an entryCreated event for every entry the request starts tracking.
+	 * @private
+	 */
+	private checkEntries(endpoint: string, identifier: string, now: number, options: Required<CheckOptions>): MaybePromise<RateLimitResult> {
+		if (this.listeners.entryCreated.size === 0) return this.consumeEntries(endpoint, identifier, now, options);
+
+		// Only look the entries up when someone listens, as it costs an extra store read per limit
+		const limiters = this.limits.length > 0 ? this.limits : [this];
+		const keys = limiters.map((limiter) => limiter.generateKey(endpoint, identifier));
+
+		return chain(all(keys.map((key) => this.store.get(key))), (entries) =>
+			chain(this.consumeEntries(endpoint, identifier, now, options), (result) => {
+				keys
+					.filter((_, i) => !entries[i] && (!result.limited || limiters[i].consumesRejected(options)))
+					.forEach((key) => this.emit("entryCreated", { endpoint, identifier, key }));
+				return result;
+			})
+		);
+	}
+
+	/**
+	 * Consumes the request from the entries of endpoint and identifier.
+	 * @private
+	 */
+	private consumeEntries(endpoint: string, identifier: string, now: number, options: Required<CheckOptions>): MaybePromise<RateLimitResult> {
+		if (this.limits.length > 0) {
+			return this.checkLimits(endpoint, identifier, now, options);
+		}
+
+		return chain(this.consume(this.generateKey(endpoint, identifier), now, options), (entry) =>
+			this.createRateLimitResult(entry, now, options.cost, this.consumesRejected(options))
+		);
+	}
+
+	/**
+	 * Records a request against every configured limit.
+	 * Consumption is all-or-nothing: the limits that allowed a request another limit rejected get their cost back,
+	 * atomically on stores implementing refund, while the limits that rejected it only keep it when rejected requests consume.
+	 * @private
+	 */
+	private checkLimits(endpoint: string, identifier: string, now: number, options: Required<CheckOptions>): MaybePromise<RateLimitResult> {
+		const entries = all(this.limits.map((limit) => limit.consume(limit.generateKey(endpoint, identifier), now, options)));
+
+		return chain(entries, (entries) => {
+			const results = entries.map((entry, i) => this.limits[i].createRateLimitResult(entry, now, options.cost, this.limits[i].consumesRejected(options)));
+			const result = this.combineResults(results);
+			if (!result.limited) return result;
+
+			const refunds = this.limits
+				.filter((_, i) => !results[i].limited)
+				.map((limit) => limit.restore(limit.generateKey(endpoint, identifier), now, options.cost, now));
+			return chain(all(refunds), () => result);
+		});
+	}
+
+	/**
+	 * Combines the results of the configured limits into the result of the request.
+	 * The strictest limit describes the request, while the latest reset and longest wait win.
+	 * @private
+	 */
+	private combineResults(results: RateLimitResult[]): RateLimitResult {
+		const strictest = results.reduce((strictest, result) => {
+			if (result.limited !== strictest.limited) return result.limited ? result : strictest;
+			if (result.remaining !== strictest.remaining) return result.remaining < strictest.remaining ? result : strictest;
+			return result.reset > strictest.reset ? result : strictest;
+		});
+
+		const delays = results.filter((result) => result.delay !== undefined).map((result) => result.delay!);
+
+		return {
+			limited: strictest.limited,
+			remaining: strictest.remaining,
+			reset: Math.max(...results.map((result) => result.reset)),
+			current: strictest.current,
+			limit: strictest.limit,
+			window: strictest.window,
+			retryAfter: Math.max(...results.map((result) => result.retryAfter)),
+			timestamp: strictest.timestamp,
+			...(delays.length > 0 && { delay: Math.max(...delays) }),
+			...(this.ruleName !== undefined && { rule: this.ruleName }),
+			...(this.tierName !== undefined && { tier: this.tierName }),
+			limits: results,
+		};
+	}
+
+	/**
+	 * Fills in defaults for the options of a single check.
+	 * @throws {RangeError} If the cost is negative or not a finite number
+	 * @private
+	 */
+	private resolveCheckOptions(options: CheckOptions): Required<CheckOptions> {
+		const cost = options.cost ?? 1;
+		if (!Number.isFinite(cost) || cost < 0) {
+			throw new RangeError(`Invalid cost: ${cost}`);
+		}
+
+		return {
+			cost,
+			consumeRejected: options.consumeRejected ?? this.config.consumeRejected!,
+		};
+	}
+
+	/**
+	 * Records a request against the entry stored under key using the configured algorithm.
+	 * Delegates to the store when it can apply the algorithm atomically.
+	 * @returns The updated entry, describing the state as if the request was counted
+	 * @private
+	 */
+	private consume(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		if (this.store.consume) {
+			return this.store.consume(key, now, this.config, options);
+		}
+
+		switch (this.config.algorithm) {
+			case Algorithm.FIXED_WINDOW:
+				return this.checkFixedWindow(key, now, options);
+			case Algorithm.SLIDING_WINDOW:
+				return this.checkSlidingWindow(key, now, options);
+			case Algorithm.SLIDING_WINDOW_COUNTER:
+				return this.checkSlidingWindowCounter(key, now, options);
+			case Algorithm.TOKEN_BUCKET:
+				return this.checkTokenBucket(key, now, options);
+			case Algorithm.LEAKY_BUCKET:
+				return this.checkLeakyBucket(key, now, options);
+			case Algorithm.GCRA:
+				return this.checkGcra(key, now, options);
+			default:
+				throw new Error(`Unknown algorithm: ${this.config.algorithm}`);
+		}
+	}
+
+	/**
+	 * Stores an updated entry unless the request was limited and rejected requests don't consume.
+	 * @returns The updated entry
+	 * @private
+	 */
+	private saveEntry(key: StoreKey, entry: Entry, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		if (!this.consumesRejected(options) && this.createRateLimitResult(entry, now, options.cost).limited) {
+			return entry;
+		}
+		return chain(this.store.set(key, entry), () => entry);
+	}
+
+	/**
+	 * Whether a limited request consumes its cost under the configured algorithm.
+	 * A leaky bucket drops what overflows, and GCRA never moves the theoretical arrival time for a request that doesn't conform.
+	 * @private
+	 */
+	private consumesRejected(options: Required<CheckOptions>): boolean {
+		return options.consumeRejected && this.config.algorithm !== Algorithm.LEAKY_BUCKET && this.config.algorithm !== Algorithm.GCRA;
+	}
+
+	/**
+	 * Fixed window rate limit algorithm implementation.
+	 * Simple counter that resets after each window.
+	 * @private
+	 */
+	private checkFixedWindow(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		const resetTime = now + this.config.window!;
+		if (options.consumeRejected) return this.store.increment(key, options.cost, resetTime, now);
+
+		// Check before incrementing, so a rejected request neither creates nor touches an entry
+		return chain(this.store.get(key), (storedEntry) => {
+			const live = storedEntry !== undefined && storedEntry.resetTime > now;
+			const expected: Entry = live ? { ...storedEntry, count: storedEntry.count! + options.cost } : { count: options.cost, resetTime };
+			if (this.createRateLimitResult(expected, now, options.cost).limited) return expected;
+
+			return chain(this.store.increment(key, options.cost, resetTime, now), (entry) => {
+				if (!this.createRateLimitResult(entry, now, options.cost).limited) return entry;
+
+				// Roll back a request that concurrent ones pushed over the limit
+				return chain(this.store.increment(key, -options.cost, entry.resetTime, now), () => entry);
+			});
+		});
+	}
+
+	/**
+	 * Sliding window rate limit algorithm implementation.
+	 * Tracks exact request timestamps for more precise limiting.
+	 * @private
+	 */
+	private checkSlidingWindow(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		return chain(this.store.get(key), (storedEntry) => {
+			const entry = storedEntry ? cloneEntry(storedEntry) : this.createNewEntry(now);
+
+			const precision = this.config.precision!;
+			const roundedNow = Math.floor(now / precision) * precision;
+
+			// Remove timestamps outside the current window
+			const windowStart = roundedNow - this.config.window!;
+			let totalCount = 0;
+
+			entry.buckets!.forEach((count, timestamp) => {
+				if (timestamp > windowStart) {
+					totalCount += count;
+				} else {
+					entry.buckets!.delete(timestamp);
+				}
+			});
+
+			const currentCount = (entry.buckets!.get(roundedNow) || 0) + options.cost;
+			entry.buckets!.set(roundedNow, currentCount);
+			totalCount += options.cost;
+
+			entry.count = totalCount;
+			entry.resetTime = this.getSlidingWindowReset(entry);
+
+			return this.saveEntry(key, entry, now, options);
+		});
+	}
+
+	/**
+	 * Gets the time at which a sliding window entry is empty again, when its newest bucket leaves the window.
+	 * @private
+	 */
+	private getSlidingWindowReset(entry: Entry): number {
+		let newest = -Infinity;
+		for (const timestamp of entry.buckets!.keys()) {
+			newest = Math.max(newest, timestamp);
+		}
+		return newest + this.config.window!;
+	}
+
+	/**
+	 * Sliding window counter rate limit algorithm implementation.
+	 * Keeps only the current and previous fixed window counts.
+	 * @private
+	 */
+	private checkSlidingWindowCounter(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		return chain(this.store.get(key), (storedEntry) => {
+			const entry = storedEntry ? cloneEntry(storedEntry) : this.createNewEntry(now);
+
+			this.rollCounterWindows(entry, now);
+			entry.count! += options.cost;
+			entry.resetTime = entry.windowStart! + 2 * this.config.window!;
+
+			return this.saveEntry(key, entry, now, options);
+		});
+	}
+
+	/**
+	 * Moves a sliding window counter entry into the window containing now.
+	 * The current count becomes the previous one when the windows are adjacent.
+	 * @private
+	 */
+	private rollCounterWindows(entry: Entry, now: number): void {
+		const window = this.config.window!;
+		const windowStart = Math.floor(now / window) * window;
+		if (entry.windowStart === windowStart) return;
+
+		entry.previousCount = entry.windowStart === windowStart - window ? entry.count! : 0;
+		entry.count = 0;
+		entry.windowStart = windowStart;
+	}
+
+	/**
+	 * Token bucket rate limit algorithm implementation.
+	 * Allows bursts up to max capacity with steady refill rate.
+	 * @private
+	 */
+	private checkTokenBucket(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		return chain(this.store.get(key), (storedEntry) => {
+			const entry = storedEntry ? cloneEntry(storedEntry) : this.createNewEntry(now);
+
+			this.refillTokenBucket(entry, now);
+			entry.tokens! -= options.cost;
+			entry.resetTime = this.getTokenBucketReset(entry);
+
+			return this.saveEntry(key, entry, now, options);
+		});
+	}
+
+	/**
+	 * Adds the tokens of the refill intervals passed since the last refill of a token bucket entry.
+	 * @private
+	 */
+	private refillTokenBucket(entry: Entry, now: number): void {
+		const timePassed = now - entry.lastRefill!;
+		const tokensToAdd = Math.floor(timePassed / this.config.refillInterval!) * this.config.refillRate!;
+
+		if (tokensToAdd > 0) {
+			entry.tokens = Math.min(Math.max(entry.tokens! + tokensToAdd, tokensToAdd), this.config.max!);
+			entry.lastRefill = now;
+		}
+	}
+
+	/**
+	 * Gets the time at which a token bucket entry has refilled completely.
+	 * Refills happen in whole intervals, and the first one also clears any debt.
+	 * @private
+	 */
+	private getTokenBucketReset(entry: Entry): number {
+		const missing = Math.max(this.config.max! - Math.max(entry.tokens!, 0), 0);
+		return entry.lastRefill! + Math.ceil(missing / this.config.refillRate!) * this.config.refillInterval!;
+	}
+
+	/**
+	 * Leaky bucket rate limit algorithm implementation.
+	 * Fills the bucket by the request cost and drains it continuously at the leak rate. Requests that overflow it are dropped.
+	 * @private
+	 */
+	private checkLeakyBucket(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		return chain(this.store.get(key), (storedEntry) => {
+			const entry = storedEntry ? cloneEntry(storedEntry) : this.createNewEntry(now);
+
+			this.drainLeakyBucket(entry, now);
+			entry.level! += options.cost;
+			entry.resetTime = now + entry.level! / this.getLeakPerMs();
+
+			return this.saveEntry(key, entry, now, options);
+		});
+	}
+
+	/**
+	 * Drains a leaky bucket entry for the time passed since its last leak.
+	 * @private
+	 */
+	private drainLeakyBucket(entry: Entry, now: number): void {
+		entry.level = Math.max(entry.level! - (now - entry.lastLeak!) * this.getLeakPerMs(), 0);
+		entry.lastLeak = now;
+	}
+
+	/**
+	 * Gets the leaky bucket drain rate in requests per millisecond.
+	 * @private
+	 */
+	private getLeakPerMs(): number {
+		return this.config.leakRate! / this.config.leakInterval!;
+	}
+
+	/**
+	 * Generic cell rate algorithm implementation.
+	 * Advances the theoretical arrival time by one emission interval per unit of cost, and leaves it as it is for limited requests.
+	 * @private
+	 */
+	private checkGcra(key: StoreKey, now: number, options: Required<CheckOptions>): MaybePromise<Entry> {
+		return chain(this.store.get(key), (storedEntry) => {
+			const entry = storedEntry ? cloneEntry(storedEntry) : this.createNewEntry(now);
+
+			entry.tat = Math.max(entry.tat!, now) + this.getEmissionInterval() * options.cost;
+			entry.resetTime = entry.tat;
+
+			return this.saveEntry(key, entry, now, options);
+		});
+	}
+
+	/**
+	 * Gets the GCRA emission interval, the time one request occupies in the window.
+	 * @private
+	 */
+	private getEmissionInterval(): number {
+		return this.config.window! / this.config.max!;
+	}
+
+	/**
+	 * Generates a consistent store key from endpoint and identifier, normalizing the identifier when configured.
+	 * @private
+	 */
+	private generateKey(endpoint: string, identifier: string): StoreKey {
+		return `${endpoint}:${this.normalize ? this.normalize(identifier) : identifier}${this.keySuffix}`;
+	}
+
+	/**
+	 * Formats the rate limit result based on the current entry state.
+	 * @param cost - Cost of the request already reflected in the entry, 0 when only reading
+	 * @param consumeRejected - Whether the entry was stored even if the request is limited
+	 * @private
+	 */
+	private createRateLimitResult(entry: Entry, now: number, cost: number, consumeRejected = true): RateLimitResult {
+		let limited: boolean;
 		let remaining: number;
 		let current: number;
+		let delay: number | undefined;
 
 		switch (this.config.algorithm) {
 			case Algorithm.TOKEN_BUCKET:
@@ -283,13 +1382,38 @@ export class RateLimiter {
 				current = this.config.max! - entry.tokens!;
 				break;
 
+			case Algorithm.LEAKY_BUCKET:
+				limited = entry.level! > this.config.max!;
+				remaining = Math.max(Math.floor(this.config.max! - entry.level!), 0);
+				current = Math.ceil(entry.level!);
+				// Only queued requests wait, overflowing ones are dropped
+				if (!limited) delay = Math.max(entry.level! - cost, 0) / this.getLeakPerMs();
+				break;
+
+			case Algorithm.GCRA:
+				// Number of requests whose emission interval hasn't passed yet
+				const emissionInterval = this.getEmissionInterval();
+				const pending = Math.max(entry.tat! - now, 0) / emissionInterval;
+				limited = pending > this.config.max! + FLOAT_TOLERANCE;
+				remaining = Math.max(Math.floor(this.config.max! - pending + FLOAT_TOLERANCE), 0);
+				current = Math.max(Math.ceil(pending - FLOAT_TOLERANCE), 0);
+				break;
+
 			case Algorithm.SLIDING_WINDOW:
-				const now = Date.now();
 				limited = entry.count! > this.config.max!;
 				remaining = Math.max(this.config.max! - entry.count!, 0);
 				current = entry.count!;
 				break;
 
+			case Algorithm.SLIDING_WINDOW_COUNTER:
+				// Weight the previous window by how much of it still overlaps the rolling window
+				const overlap = 1 - (now - entry.windowStart!) / this.config.window!;
+				const weightedCount = entry.previousCount! * Math.max(overlap, 0) + entry.count!;
+				limited = weightedCount > this.config.max! + FLOAT_TOLERANCE;
+				remaining = Math.max(Math.floor(this.config.max! - weightedCount + FLOAT_TOLERANCE), 0);
+				current = Math.max(Math.ceil(weightedCount - FLOAT_TOLERANCE), 0);
+				break;
+
 			case Algorithm.FIXED_WINDOW:
 			default:
 				limited = entry.count! > this.config.max!;
@@ -305,19 +1429,80 @@ export class RateLimiter {
 			current,
 			limit: this.config.max!,
 			window: this.config.window!,
+			retryAfter: this.getRetryAfter(entry, now, limited && !consumeRejected ? cost : 0),
+			timestamp: now,
+			...(delay !== undefined && { delay }),
+			...(this.ruleName !== undefined && { rule: this.ruleName }),
+			...(this.tierName !== undefined && { tier: this.tierName }),
 		};
 	}
 
+	/**
+	 * Calculates the milliseconds until the next request would be allowed, 0 if it would be allowed now.
+	 * @param undone - Cost reflected in the entry that wasn't stored, as the request was rejected without consuming
+	 * @private
+	 */
+	private getRetryAfter(entry: Entry, now: number, undone: number): number {
+		const max = this.config.max!;
+		const window = this.config.window!;
+
+		switch (this.config.algorithm) {
+			case Algorithm.TOKEN_BUCKET:
+				const tokens = entry.tokens! + undone;
+				if (tokens >= 1) return 0;
+
+				// Refills happen in whole intervals, and the first one also clears any debt
+				const intervals = Math.ceil((1 - Math.max(tokens, 0)) / this.config.refillRate!);
+				return Math.max(entry.lastRefill! + intervals * this.config.refillInterval! - now, 0);
+
+			case Algorithm.LEAKY_BUCKET:
+				return Math.max((entry.level! - undone + 1 - max) / this.getLeakPerMs(), 0);
+
+			case Algorithm.GCRA:
+				const emissionInterval = this.getEmissionInterval();
+				return Math.max(entry.tat! - emissionInterval * (undone - 1) - window - now, 0);
+
+			case Algorithm.SLIDING_WINDOW:
+				let count = entry.count! - undone + 1;
+				if (count <= max) return 0;
+
+				// Wait for the oldest buckets to leave the window
+				const timestamps = [...(entry.buckets?.keys() ?? [])].sort((a, b) => a - b);
+				for (const timestamp of timestamps) {
+					count -= entry.buckets!.get(timestamp)!;
+					if (count <= max) return Math.max(timestamp + window - now, 0);
+				}
+				return Math.max(entry.resetTime - now, 0);
+
+			case Algorithm.SLIDING_WINDOW_COUNTER:
+				const stored = entry.count! - undone;
+				const overlap = Math.max(1 - (now - entry.windowStart!) / window, 0);
+				if (entry.previousCount! * overlap + stored + 1 <= max + FLOAT_TOLERANCE) return 0;
+
+				// Wait for the weight of the previous window to drop, or for the current one to become the previous
+				const allowedAt =
+					stored + 1 <= max + FLOAT_TOLERANCE
+						? entry.windowStart! + window * (1 - (max - stored - 1) / entry.previousCount!)
+						: entry.windowStart! + window * (2 - Math.max(max - 1, 0) / stored);
+				return Math.max(allowedAt - now, 0);
+
+			case Algorithm.FIXED_WINDOW:
+			default:
+				return entry.count! - undone + 1 <= max ? 0 : Math.max(entry.resetTime - now, 0);
+		}
+	}
+
 	/**
 	 * Clears all rate limit entries and stops automatic cleanup.
 	 * Useful for testing or when shutting down the application.
 	 */
 	public clear(): void {
-		this.store.clear();
-		if (this.cleanupInterval) {
-			clearInterval(this.cleanupInterval);
+		if (this.cleanupInterval !== undefined) {
+			this.config.scheduler!.clearInterval(this.cleanupInterval);
 			this.cleanupInterval = undefined;
 		}
+		this.tierCache.clear();
+		this.resolveSync(this.store.clear());
 	}
 
 	/**
@@ -325,7 +1510,210 @@ export class RateLimiter {
 	 * @returns Count of active entries being monitored
 	 */
 	public getSize(): number {
-		return this.store.size;
+		return this.resolveSync(this.store.size());
+	}
+
+	/**
+	 * Gets the number of tracked entries along with the request and entry counters.
+	 * @returns Counters of this limiter, including its rules, limits and tiers
+	 * @throws {Error} If the configured store is asynchronous
+	 *
+	 * @example
+	 * const { size, evictions } = limiter.getStats();
+	 * if (evictions > 0) console.warn(`Evicted ${evictions} entries, consider raising maxEntries`);
+	 *
+	 * @example
+	 * const { endpoints } = limiter.getStats();
+	 * console.log(`${endpoints["/api/login"]?.limited ?? 0} limited login attempts`);
+	 */
+	public getStats(): RateLimiterStats {
+		return this.createStats(this.getSize());
+	}
+
+	/**
+	 * Asynchronously gets the number of tracked entries along with the request and entry counters.
+	 * Works with every store, including ones that perform I/O such as RedisStore.
+	 * @returns Promise resolving to the counters of this limiter, including its rules, limits and tiers
+	 */
+	public async getStatsAsync(): Promise<RateLimiterStats> {
+		return this.createStats(await this.store.size());
+	}
+
+	/**
+	 * Formats the stats of this limiter, including its rules, limits and tiers, in the Prometheus text format,
+	 * or in the OpenMetrics text format when openMetrics is set.
+	 *
+	 * @param options - Metric names and labels
+	 * @returns The metrics in the text exposition format
+	 * @throws {Error} If the configured store is asynchronous
+	 *
+	 * @example
+	 * Bun.serve({
+	 *   fetch: (request) =>
+	 *     new URL(request.url).pathname === "/metrics"
+	 *       ? new Response(limiter.getMetrics(), { headers: { "Content-Type": "text/plain; version=0.0.4" } })
+	 *       : handle(request),
+	 * });
+	 */
+	public getMetrics(options: MetricsOptions = {}): string {
+		return formatMetrics(this.getStats(), options);
+	}
+
+	/**
+	 * Asynchronously formats the stats of this limiter in the Prometheus or OpenMetrics text format.
+	 * Works with every store, including ones that perform I/O such as RedisStore.
+	 * @param options - Metric names and labels
+	 * @returns Promise resolving to the metrics in the text exposition format
+	 */
+	public async getMetricsAsync(options: MetricsOptions = {}): Promise<string> {
+		return formatMetrics(await this.getStatsAsync(), options);
+	}
+
+	/**
+	 * Copies the counters so callers can't modify them.
+	 * @private
+	 */
+	private createStats(size: number): RateLimiterStats {
+		const { endpoints, ...counters } = this.counters;
+		const endpointStats = Object.fromEntries(
+			Array.from(endpoints, ([endpoint, { algorithms, ...stats }]) => [
+				endpoint,
+				{ ...stats, algorithms: Object.fromEntries(Object.entries(algorithms).map(([algorithm, stats]) => [algorithm, { ...stats }])) },
+			])
+		);
+
+		return { size, ...counters, endpoints: endpointStats };
+	}
+
+	/**
+	 * Registers a listener for an event of this limiter, its rules, limits and tiers.
+	 * Listeners run synchronously, so slow work should be deferred to keep checks fast.
+	 *
+	 * @param event - Name of the event
+	 * @param listener - Function called with the event payload
+	 * @returns Function removing the listener
+	 *
+	 * @example
+	 * limiter.on("limited", ({ endpoint, identifier, result }) => {
+	 *   logger.warn(`Limited ${identifier} on ${endpoint} for ${result.retryAfter}ms`);
+	 * });
+	 *
+	 * @example
+	 * const stop = limiter.on("entryEvicted", ({ key }) => evicted.push(key));
+	 * stop();
+	 */
+	public on<E extends keyof RateLimiterEvents>(event: E, listener: RateLimiterListener<E>): () => void {
+		(this.listeners[event] as Set<RateLimiterListener<E>>).add(listener);
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Removes a listener registered with on.
+	 * @param event - Name of the event
+	 * @param listener - The registered listener
+	 */
+	public off<E extends keyof RateLimiterEvents>(event: E, listener: RateLimiterListener<E>): void {
+		(this.listeners[event] as Set<RateLimiterListener<E>>).delete(listener);
+	}
+
+	/**
+	 * Calls the listeners of an event.
+	 * @private
+	 */
+	private emit<E extends keyof RateLimiterEvents>(event: E, payload: RateLimiterEvents[E]): void {
+		(this.listeners[event] as Set<RateLimiterListener<E>>).forEach((listener) => listener(payload));
+	}
+
+	/**
+	 * Exports the entries that haven't expired yet, e.g. to restore them after a restart.
+	 * The snapshot covers the entries of all rules, limits and tiers, and can be stored as JSON.
+	 *
+	 * @returns Snapshot of the stored entries
+	 * @throws {Error} If the configured store is asynchronous
+	 *
+	 * @example
+	 * await Bun.write("rate-limits.json", JSON.stringify(limiter.export()));
+	 */
+	public export(): RateLimiterSnapshot {
+		return this.resolveSync(this.createSnapshot(this.config.clock!.now()));
+	}
+
+	/**
+	 * Asynchronously exports the entries that haven't expired yet, supporting asynchronous stores.
+	 * @returns Promise resolving to the snapshot of the stored entries
+	 */
+	public async exportAsync(): Promise<RateLimiterSnapshot> {
+		return this.createSnapshot(this.config.clock!.now());
+	}
+
+	/**
+	 * Imports the entries of a snapshot, replacing stored entries with the same key.
+	 * Entries that expired since the snapshot was taken are skipped.
+	 *
+	 * @param snapshot - Snapshot created by export, e.g. parsed from JSON
+	 * @returns Number of imported entries
+	 * @throws {Error} If the snapshot version isn't supported or the configured store is asynchronous
+	 *
+	 * @example
+	 * limiter.import(JSON.parse(await Bun.file("rate-limits.json").text()));
+	 */
+	public import(snapshot: RateLimiterSnapshot): number {
+		return this.resolveSync(this.restoreSnapshot(snapshot, this.config.clock!.now()));
+	}
+
+	/**
+	 * Asynchronously imports the entries of a snapshot, supporting asynchronous stores.
+	 * @param snapshot - Snapshot created by export, e.g. parsed from JSON
+	 * @returns Promise resolving to the number of imported entries
+	 */
+	public async importAsync(snapshot: RateLimiterSnapshot): Promise<number> {
+		return this.restoreSnapshot(snapshot, this.config.clock!.now());
+	}
+
+	/**
+	 * Collects the entries that haven't expired into a snapshot.
+	 * @private
+	 */
+	private createSnapshot(now: number): MaybePromise<RateLimiterSnapshot> {
+		return chain(this.collectEntries(), (entries) => ({
+			version: SNAPSHOT_VERSION,
+			createdAt: now,
+			entries: entries.filter(([, entry]) => entry.resetTime > now).map(([key, entry]): [StoreKey, SnapshotEntry] => [key, toSnapshotEntry(entry)]),
+		}));
+	}
+
+	/**
+	 * Stores the entries of a snapshot that haven't expired.
+	 * @throws {Error} If the snapshot version isn't supported
+	 * @private
+	 */
+	private restoreSnapshot(snapshot: RateLimiterSnapshot, now: number): MaybePromise<number> {
+		if (snapshot.version !== SNAPSHOT_VERSION) {
+			throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+		}
+
+		const entries = snapshot.entries.filter(([, entry]) => entry.resetTime > now);
+		return chain(all(entries.map(([key, entry]) => this.store.set(key, fromSnapshotEntry(entry)))), () => entries.length);
+	}
+
+	/**
+	 * Reads all stored entries.
+	 * @private
+	 */
+	private collectEntries(): MaybePromise<[StoreKey, Entry][]> {
+		const entries = this.store.entries();
+
+		if (Symbol.asyncIterator in entries) {
+			return (async () => {
+				const collected: [StoreKey, Entry][] = [];
+				for await (const entry of entries) {
+					collected.push(entry);
+				}
+				return collected;
+			})();
+		}
+
+		return [...entries];
 	}
 
 	/**
@@ -334,18 +1722,23 @@ export class RateLimiter {
 	 *
 	 * @param endpoint - The API endpoint being accessed
 	 * @param identifier - Unique caller identifier
-	 * @returns The current rate limit entry or null if not found
+	 * @returns The current rate limit entry or null if not found. With several limits, their entries are in its limits.
 	 *
 	 * @example
 	 * const entry = limiter.getEntry("/api/login", "192.168.1.1");
 	 * console.log(entry);
 	 */
 	public getEntry(endpoint: string, identifier: string): Entry | null {
-		const key = this.generateKey(endpoint, identifier);
-		const entry = this.store.get(key);
+		const limiter = this.resolveSync(this.selectLimiter(endpoint, identifier), "tier resolver");
+		const keys = (limiter.limits.length > 0 ? limiter.limits : [limiter]).map((limit) => limit.generateKey(endpoint, identifier));
 
-		// Return a clone to prevent external modification
-		return entry ? { ...entry } : null;
+		// Return clones to prevent external modification
+		const entries = keys.map((key) => this.resolveSync(this.store.get(key))).map((entry) => (entry ? cloneEntry(entry) : null));
+		if (!entries.some(Boolean)) return null;
+
+		const entry: Entry = limiter.limits.length > 0 ? { resetTime: Math.max(...entries.map((entry) => entry?.resetTime ?? 0)), limits: entries } : entries[0]!;
+		if (limiter.tierName !== undefined) entry.tier = limiter.tierName;
+		return entry;
 	}
 
 	/**
@@ -366,14 +1759,167 @@ export class RateLimiter {
 	 * }
 	 */
 	public get(endpoint: string, identifier: string): RateLimitResult {
-		const key = this.generateKey(endpoint, identifier);
-		const entry = this.store.get(key);
+		const limiter = this.resolveSync(this.selectLimiter(endpoint, identifier), "tier resolver");
+		if (limiter !== this) return limiter.get(endpoint, identifier);
+
+		return this.resolveSync(this.getAt(endpoint, identifier, this.config.clock!.now()));
+	}
+
+	/**
+	 * Asynchronously gets the current rate limit status for a specific endpoint and identifier
+	 * without counting it as a new request. Store failures are handled like in checkAsync.
+	 *
+	 * @param endpoint - The API endpoint being accessed
+	 * @param identifier - Unique caller identifier
+	 * @returns Promise resolving to the rate limit status
+	 *
+	 * @example
+	 * const status = await limiter.getAsync("/api/login", "192.168.1.1");
+	 */
+	public async getAsync(endpoint: string, identifier: string): Promise<RateLimitResult> {
+		const limiter = await this.selectLimiterAsync(endpoint, identifier);
+		if (!(limiter instanceof RateLimiter)) return limiter;
+		if (limiter !== this) return limiter.getAsync(endpoint, identifier);
+
+		const now = this.config.clock!.now();
+
+		return this.resolveAsync(() => this.getAt(endpoint, identifier, now), now);
+	}
+
+	/**
+	 * Reads the status of every configured limit and formats the result.
+	 * @private
+	 */
+	private getAt(endpoint: string, identifier: string, now: number): MaybePromise<RateLimitResult> {
+		const listed = this.matchLists(endpoint, identifier, now);
+		if (listed) return listed;
+
+		if (this.limits.length > 0) {
+			const entries = all(this.limits.map((limit) => limit.peek(limit.generateKey(endpoint, identifier), now)));
+			return chain(entries, (entries) => this.combineResults(entries.map((entry, i) => this.limits[i].createRateLimitResult(entry, now, 0))));
+		}
+
+		return chain(this.peek(this.generateKey(endpoint, identifier), now), (entry) => this.createRateLimitResult(entry, now, 0));
+	}
+
+	/**
+	 * Formats the HTTP headers describing a result of this limiter, i.e. the RateLimit and RateLimit-Policy
+	 * headers of the IETF draft standard and, optionally, the legacy X-RateLimit-* headers.
+	 * Retry-After is included for limited results.
+	 *
+	 * The policies describe the rule, tier and limits that produced the result. Tiers returned
+	 * as overrides by resolveTier instead of by name are described by this limiter's algorithm.
+	 *
+	 * @param result - Result returned by this limiter
+	 * @param options - Headers to include
+	 * @returns Header names mapped to their values
+	 *
+	 * @example
+	 * const result = limiter.check("/api/data", ip);
+	 * limiter.getHeaders(result);
+	 * // { "RateLimit-Policy": '"default";q=60;w=60', "RateLimit": '"default";r=59;t=60' }
+	 */
+	public getHeaders(result: RateLimitResult, options: RateLimitHeadersOptions = {}): Record<string, string> {
+		return formatRateLimitHeaders(result, this.findLimiter(result).config, options);
+	}
+
+	/**
+	 * Finds the limiter of the tier and rule a result was produced by.
+	 * @private
+	 */
+	private findLimiter(result: RateLimitResult): RateLimiter {
+		const limiter = (result.tier !== undefined && this.tierLimiters.get(result.tier)) || this;
+		return limiter.rules.find((rule) => rule.limiter.ruleName === result.rule)?.limiter ?? limiter;
+	}
+
+	/**
+	 * Gives back the cost of a request that shouldn't count, e.g. a successful login
+	 * when only failed attempts are limited, or a request the handler answered without error.
+	 *
+	 * Fixed window and sliding window counter requests are only refunded while their window lasts,
+	 * sliding window requests are taken out of the bucket they were recorded in, and bucket
+	 * based algorithms get the cost back without going over their capacity.
+	 *
+	 * @param endpoint - The API endpoint being accessed
+	 * @param identifier - Unique caller identifier
+	 * @param options - Cost to refund and when the refunded request was checked
+	 * @returns Rate limit status after the refund
+	 * @throws {Error} If the configured store is asynchronous
+	 *
+	 * @example
+	 * // Only count failed logins
+	 * const result = limiter.check("/api/login", ip);
+	 * if (!result.limited && loginSucceeded) {
+	 *   limiter.refund("/api/login", ip, { timestamp: result.timestamp });
+	 * }
+	 */
+	public refund(endpoint: string, identifier: string, options: RefundOptions = {}): RateLimitResult {
+		const limiter = this.resolveSync(this.selectLimiter(endpoint, identifier), "tier resolver");
+		if (limiter !== this) return limiter.refund(endpoint, identifier, options);
+
+		const { cost } = this.resolveCheckOptions({ cost: options.cost });
+
+		return this.resolveSync(this.refundAt(endpoint, identifier, this.config.clock!.now(), cost, options.timestamp));
+	}
+
+	/**
+	 * Asynchronously gives back the cost of a request that shouldn't count.
+	 * Store failures are handled like in checkAsync.
+	 *
+	 * @param endpoint - The API endpoint being accessed
+	 * @param identifier - Unique caller identifier
+	 * @param options - Cost to refund and when the refunded request was checked
+	 * @returns Promise resolving to the rate limit status after the refund
+	 *
+	 * @example
+	 * await limiter.refundAsync("/api/upload", userId, { cost: fileCount });
+	 */
+	public async refundAsync(endpoint: string, identifier: string, options: RefundOptions = {}): Promise<RateLimitResult> {
+		const limiter = await this.selectLimiterAsync(endpoint, identifier);
+		if (!(limiter instanceof RateLimiter)) return limiter;
+		if (limiter !== this) return limiter.refundAsync(endpoint, identifier, options);
+
+		const now = this.config.clock!.now();
+		const { cost } = this.resolveCheckOptions({ cost: options.cost });
+
+		return this.resolveAsync(() => this.refundAt(endpoint, identifier, now, cost, options.timestamp), now);
+	}
+
+	/**
+	 * Refunds a request against every configured limit and formats the result.
+	 * @private
+	 */
+	private refundAt(endpoint: string, identifier: string, now: number, cost: number, timestamp?: number): MaybePromise<RateLimitResult> {
+		if (this.limits.length > 0) {
+			const entries = all(this.limits.map((limit) => limit.restore(limit.generateKey(endpoint, identifier), now, cost, timestamp)));
+			return chain(entries, (entries) => this.combineResults(entries.map((entry, i) => this.limits[i].createRateLimitResult(entry, now, 0))));
+		}
+
+		return chain(this.restore(this.generateKey(endpoint, identifier), now, cost, timestamp), (entry) => this.createRateLimitResult(entry, now, 0));
+	}
+
+	/**
+	 * Reads the entry stored under key without recording a request.
+	 * @returns The stored entry or a fresh one if none exists
+	 * @private
+	 */
+	private peek(key: StoreKey, now: number): MaybePromise<Entry> {
+		return chain(this.store.get(key), (storedEntry) => {
+			if (!storedEntry) return this.createNewEntry(now);
 
-		const now = Date.now();
-		const currentEntry = entry || this.createNewEntry(now);
+			const entry = cloneEntry(storedEntry);
+			this.refreshEntry(entry, now);
+			return entry;
+		});
+	}
 
+	/**
+	 * Brings an entry up to date with the time passed since it was stored.
+	 * @private
+	 */
+	private refreshEntry(entry: Entry, now: number): void {
 		// For sliding window, we need to clean up old buckets first
-		if (this.config.algorithm === Algorithm.SLIDING_WINDOW && entry?.buckets) {
+		if (this.config.algorithm === Algorithm.SLIDING_WINDOW && entry.buckets) {
 			const precision = this.config.precision!;
 			const roundedNow = Math.floor(now / precision) * precision;
 			const windowStart = roundedNow - this.config.window!;
@@ -391,13 +1937,161 @@ export class RateLimiter {
 
 			// Update reset time if needed
 			if (entry.buckets.size > 0) {
-				entry.resetTime = Math.min(...entry.buckets.keys()) + this.config.window!;
+				entry.resetTime = this.getSlidingWindowReset(entry);
+			}
+		}
+
+		// For sliding window counter, the counts have to belong to the current window
+		if (this.config.algorithm === Algorithm.SLIDING_WINDOW_COUNTER) {
+			this.rollCounterWindows(entry, now);
+		}
+
+		// For leaky bucket, the level has to reflect what drained since the last request
+		if (this.config.algorithm === Algorithm.LEAKY_BUCKET) {
+			this.drainLeakyBucket(entry, now);
+		}
+
+		// For token bucket, the tokens of the intervals passed since the last request are available again
+		if (this.config.algorithm === Algorithm.TOKEN_BUCKET) {
+			this.refillTokenBucket(entry, now);
+			entry.resetTime = this.getTokenBucketReset(entry);
+		}
+
+		// For fixed window, an expired window no longer counts, and the next request starts a new one
+		if (this.config.algorithm === Algorithm.FIXED_WINDOW && entry.resetTime <= now) {
+			entry.count = 0;
+			entry.resetTime = now + this.config.window!;
+		}
+	}
+
+	/**
+	 * Reverses the consumption of a request recorded under key.
+	 * Delegates to the store when it can refund atomically, and goes through get and set otherwise.
+	 * @param timestamp - When the refunded request was checked, if known
+	 * @returns The updated entry
+	 * @private
+	 */
+	private restore(key: StoreKey, now: number, cost: number, timestamp?: number): MaybePromise<Entry> {
+		if (this.store.refund) {
+			return chain(this.store.refund(key, now, this.config, cost, timestamp), (entry) => entry ?? this.createNewEntry(now));
+		}
+
+		if (this.config.algorithm === Algorithm.FIXED_WINDOW) {
+			return this.refundFixedWindow(key, now, cost, timestamp);
+		}
+
+		return chain(this.store.get(key), (storedEntry) => {
+			if (!storedEntry) return this.createNewEntry(now);
+
+			const entry = cloneEntry(storedEntry);
+			this.refreshEntry(entry, now);
+
+			switch (this.config.algorithm) {
+				case Algorithm.SLIDING_WINDOW:
+					this.refundSlidingWindow(entry, now, cost, timestamp);
+					break;
+
+				case Algorithm.SLIDING_WINDOW_COUNTER:
+					const requestTime = timestamp ?? now;
+					if (requestTime >= entry.windowStart!) {
+						entry.count = Math.max(entry.count! - cost, 0);
+					} else if (requestTime >= entry.windowStart! - this.config.window!) {
+						entry.previousCount = Math.max(entry.previousCount! - cost, 0);
+					}
+					break;
+
+				case Algorithm.TOKEN_BUCKET:
+					entry.tokens = Math.min(entry.tokens! + cost, this.config.max!);
+					entry.resetTime = this.getTokenBucketReset(entry);
+					break;
+
+				case Algorithm.LEAKY_BUCKET:
+					entry.level = Math.max(entry.level! - cost, 0);
+					entry.resetTime = now + entry.level / this.getLeakPerMs();
+					break;
+
+				case Algorithm.GCRA:
+					entry.tat = Math.max(entry.tat! - this.getEmissionInterval() * cost, now);
+					entry.resetTime = entry.tat;
+					break;
 			}
+
+			return chain(this.store.set(key, entry), () => entry);
+		});
+	}
+
+	/**
+	 * Refunds a fixed window request if its window is still the current one.
+	 * @private
+	 */
+	private refundFixedWindow(key: StoreKey, now: number, cost: number, timestamp?: number): MaybePromise<Entry> {
+		return chain(this.store.get(key), (entry) => {
+			if (!entry || entry.resetTime <= now) return this.createNewEntry(now);
+
+			const windowStart = entry.resetTime - this.config.window!;
+			if ((timestamp !== undefined && timestamp < windowStart) || entry.count! <= 0) return entry;
+
+			return this.store.increment(key, -Math.min(cost, entry.count!), entry.resetTime, now);
+		});
+	}
+
+	/**
+	 * Takes a refund out of the bucket the request was recorded in,
+	 * or out of the newest bucket when the time of the request isn't known.
+	 * @private
+	 */
+	private refundSlidingWindow(entry: Entry, now: number, cost: number, timestamp?: number): void {
+		if (entry.buckets!.size === 0) return;
+
+		const precision = this.config.precision!;
+		const bucket = timestamp !== undefined ? Math.floor(timestamp / precision) * precision : Math.max(...entry.buckets!.keys());
+		const bucketCount = entry.buckets!.get(bucket) ?? 0;
+		const refunded = Math.min(cost, bucketCount);
+
+		if (bucketCount > refunded) {
+			entry.buckets!.set(bucket, bucketCount - refunded);
+		} else {
+			entry.buckets!.delete(bucket);
 		}
+		entry.count = entry.count! - refunded;
 
-		return this.createRateLimitResult(currentEntry);
+		if (entry.buckets!.size > 0) {
+			entry.resetTime = this.getSlidingWindowReset(entry);
+		}
 	}
 }
 
-export { Algorithm };
-export type { RateLimitConfig, RateLimitResult, Entry };
+export { Algorithm, EvictionPolicy, FailureMode, MatchType, MemoryStore, RedisStore, ManualClock };
+export type {
+	RateLimitConfig,
+	RateLimitResult,
+	RateLimitHeadersOptions,
+	RateLimitRule,
+	RuleConfig,
+	LimitConfig,
+	TierConfig,
+	CheckOptions,
+	RefundOptions,
+	Entry,
+	RateLimitStore,
+	StoreKey,
+	MaybePromise,
+	RedisClient,
+	RedisStoreOptions,
+	MemoryStoreOptions,
+	RateLimiterStats,
+	RateLimiterSnapshot,
+	SnapshotEntry,
+	Clock,
+	Scheduler,
+	EndpointStats,
+	RequestStats,
+	MetricsOptions,
+	RateLimiterEvents,
+	RateLimiterListener,
+	RateLimitEvent,
+	EntryCreatedEvent,
+	EntryRemovedEvent,
+	IdentifierPattern,
+	IdentifierNormalization,
+};
@@ -0,0 +1,206 @@
+/**
+ * A parsed IP address.
+ */
+export interface IpAddress {
+	/**
+	 * Version of the address.
+	 */
+	version: 4 | 6;
+	/**
+	 * The address as a 32 or 128 bit integer.
+	 */
+	value: bigint;
+}
+
+/**
+ * A parsed CIDR range.
+ */
+export interface IpRange {
+	/**
+	 * Version of the addresses in the range.
+	 */
+	version: 4 | 6;
+	/**
+	 * Any address of the range, only its first prefix bits are compared.
+	 */
+	network: bigint;
+	/**
+	 * Number of leading bits shared by the addresses of the range.
+	 */
+	prefix: number;
+}
+
+/**
+ * Prefix of the IPv4-mapped IPv6 addresses, ::ffff:0:0/96.
+ */
+const IPV4_MAPPED_PREFIX = 0xffffn;
+
+/**
+ * Parses an IPv4 address in dotted decimal notation or an IPv6 address in any of its textual forms,
+ * including compressed zeros, embedded IPv4 addresses and zone indices.
+ *
+ * @param address - The address to parse
+ * @returns The parsed address, undefined if it isn't an IP address
+ */
+export function parseIp(address: string): IpAddress | undefined {
+	if (address.includes(":")) {
+		const value = parseIpv6(address);
+		return value === undefined ? undefined : { version: 6, value };
+	}
+
+	const value = parseIpv4(address);
+	return value === undefined ? undefined : { version: 4, value: BigInt(value) };
+}
+
+/**
+ * Gets the IPv4 address an IPv4-mapped IPv6 address, e.g. ::ffff:192.0.2.1, stands for.
+ *
+ * @param address - A parsed address
+ * @returns The IPv4 address, undefined if the address isn't IPv4-mapped
+ */
+export function unmapIpv4(address: IpAddress): IpAddress | undefined {
+	if (address.version !== 6 || address.value >> 32n !== IPV4_MAPPED_PREFIX) return undefined;
+
+	return { version: 4, value: address.value & 0xffffffffn };
+}
+
+/**
+ * Formats an address in its canonical form as recommended by RFC 5952: lowercase hexadecimal groups without
+ * leading zeros, the longest run of zero groups compressed to ::, and IPv4-mapped addresses as ::ffff:192.0.2.1.
+ *
+ * @param address - A parsed address
+ * @returns The canonical form of the address
+ */
+export function formatIp(address: IpAddress): string {
+	if (address.version === 4) {
+		return [24n, 16n, 8n, 0n].map((shift) => (address.value >> shift) & 0xffn).join(".");
+	}
+
+	const ipv4 = unmapIpv4(address);
+	if (ipv4) return `::ffff:${formatIp(ipv4)}`;
+
+	const groups = Array.from({ length: 8 }, (_, i) => (address.value >> BigInt(112 - i * 16)) & 0xffffn);
+
+	// Find the longest run of zero groups, the first one when tied
+	let start = 0;
+	let length = 0;
+	for (let i = 0; i < groups.length; i++) {
+		let end = i;
+		while (end < groups.length && groups[end] === 0n) end++;
+		if (end - i > length) {
+			start = i;
+			length = end - i;
+		}
+	}
+
+	const hex = groups.map((group) => group.toString(16));
+	if (length < 2) return hex.join(":");
+
+	return `${hex.slice(0, start).join(":")}::${hex.slice(start + length).join(":")}`;
+}
+
+/**
+ * Clears the bits of an address beyond a prefix length, giving the network the address belongs to.
+ *
+ * @param address - A parsed address
+ * @param prefix - Number of leading bits to keep
+ */
+export function maskIp(address: IpAddress, prefix: number): IpAddress {
+	const shift = BigInt(getBits(address.version) - prefix);
+	return { version: address.version, value: (address.value >> shift) << shift };
+}
+
+/**
+ * Parses a CIDR range such as 10.0.0.0/8 or 2001:db8::/32. An address without a prefix length is a range of itself.
+ *
+ * @param range - The range to parse
+ * @returns The parsed range, undefined if it doesn't start with an IP address
+ * @throws {Error} If the prefix length is invalid
+ */
+export function parseCidr(range: string): IpRange | undefined {
+	const separator = range.indexOf("/");
+	const address = parseIp(separator === -1 ? range : range.slice(0, separator));
+	if (!address) return undefined;
+
+	const bits = getBits(address.version);
+	if (separator === -1) return { version: address.version, network: address.value, prefix: bits };
+
+	const prefix = range.slice(separator + 1);
+	if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > bits) {
+		throw new Error(`Invalid CIDR range: ${range}`);
+	}
+
+	return { version: address.version, network: address.value, prefix: Number(prefix) };
+}
+
+/**
+ * Checks whether an address belongs to a range. IPv4-mapped IPv6 addresses also belong to the IPv4 ranges of their IPv4 address.
+ *
+ * @param address - A parsed address
+ * @param range - A parsed range
+ */
+export function isInRange(address: IpAddress, range: IpRange): boolean {
+	if (address.version !== range.version) {
+		const ipv4 = unmapIpv4(address);
+		return ipv4 !== undefined && isInRange(ipv4, range);
+	}
+
+	const shift = BigInt(getBits(range.version) - range.prefix);
+	return address.value >> shift === range.network >> shift;
+}
+
+/**
+ * Gets the number of bits of an address version.
+ */
+function getBits(version: 4 | 6): number {
+	return version === 4 ? 32 : 128;
+}
+
+/**
+ * Parses an IPv4 address in dotted decimal notation.
+ */
+function parseIpv4(address: string): number | undefined {
+	const octets = address.split(".");
+	if (octets.length !== 4) return undefined;
+
+	let value = 0;
+	for (const octet of octets) {
+		if (!/^\d{1,3}$/.test(octet) || Number(octet) > 255) return undefined;
+		value = value * 256 + Number(octet);
+	}
+	return value;
+}
+
+/**
+ * Parses an IPv6 address, expanding compressed zeros and embedded IPv4 addresses.
+ */
+function parseIpv6(address: string): bigint | undefined {
+	// Drop the zone index, e.g. fe80::1%eth0
+	const zone = address.indexOf("%");
+	if (zone !== -1) address = address.slice(0, zone);
+
+	const halves = address.split("::");
+	if (halves.length > 2) return undefined;
+
+	const groups = halves.map((half) => (half === "" ? [] : half.split(":")));
+
+	// An embedded IPv4 address takes the place of the last two groups
+	const last = groups[groups.length - 1]!;
+	if (last[last.length - 1]?.includes(".")) {
+		const ipv4 = parseIpv4(last.pop()!);
+		if (ipv4 === undefined) return undefined;
+		last.push((ipv4 >>> 16).toString(16), (ipv4 & 0xffff).toString(16));
+	}
+
+	const count = groups[0]!.length + (groups[1]?.length ?? 0);
+	if (halves.length === 1 ? count !== 8 : count > 7) return undefined;
+
+	const expanded = halves.length === 1 ? groups[0]! : [...groups[0]!, ...Array<string>(8 - count).fill("0"), ...groups[1]!];
+
+	let value = 0n;
+	for (const group of expanded) {
+		if (!/^[0-9a-f]{1,4}$/i.test(group)) return undefined;
+		value = (value << 16n) | BigInt(parseInt(group, 16));
+	}
+	return value;
+}
@@ -0,0 +1,138 @@
+import type { MetricsOptions, RateLimiterStats, RequestStats } from "./types";
+
+/**
+ * A metric family along with its samples.
+ */
+interface Metric {
+	/**
+	 * Name of the family, without the _total suffix of counters.
+	 */
+	name: string;
+	/**
+	 * Type of the family.
+	 */
+	type: "counter" | "gauge" | "summary";
+	/**
+	 * Description of the family.
+	 */
+	help: string;
+	/**
+	 * Samples of the family.
+	 */
+	samples: Sample[];
+}
+
+/**
+ * A single sample of a metric family.
+ */
+interface Sample {
+	/**
+	 * Suffix appended to the family name, e.g. _total or _sum.
+	 */
+	suffix?: string;
+	/**
+	 * Labels of the sample.
+	 */
+	labels?: Record<string, string>;
+	/**
+	 * Value of the sample.
+	 */
+	value: number;
+}
+
+/**
+ * Formats the stats of a rate limiter in the Prometheus or OpenMetrics text format.
+ *
+ * Requests are labelled by endpoint, algorithm and result. Identifiers are never used as labels,
+ * and endpoints beyond maxStatsEndpoints are counted under "*", keeping the number of series bounded.
+ *
+ * @param stats - Stats of the rate limiter
+ * @param options - Metric names and labels
+ * @returns The metrics in the text exposition format
+ */
+export function formatMetrics(stats: RateLimiterStats, options: MetricsOptions = {}): string {
+	const { prefix = "rate_limiter", endpoints = true, labels = {}, openMetrics = false } = options;
+
+	const metrics: Metric[] = [
+		{
+			name: `${prefix}_requests`,
+			type: "counter",
+			help: "Checked requests by endpoint, algorithm and result.",
+			samples: getRequestSamples(stats, endpoints),
+		},
+		{ name: `${prefix}_entries`, type: "gauge", help: "Tracked entries.", samples: [{ value: stats.size }] },
+		{
+			name: `${prefix}_evicted_entries`,
+			type: "counter",
+			help: "Entries evicted to stay within maxEntries.",
+			samples: [{ suffix: "_total", value: stats.evictions }],
+		},
+		{
+			name: `${prefix}_expired_entries`,
+			type: "counter",
+			help: "Expired entries removed by the cleanup.",
+			samples: [{ suffix: "_total", value: stats.expirations }],
+		},
+		{
+			name: `${prefix}_rejected_requests`,
+			type: "counter",
+			help: "Requests of new identifiers limited because maxEntries was reached.",
+			samples: [{ suffix: "_total", value: stats.rejections }],
+		},
+		{
+			name: `${prefix}_cleanup_duration_seconds`,
+			type: "summary",
+			help: "Time spent removing expired entries.",
+			samples: [
+				{ suffix: "_sum", value: stats.cleanupDuration / 1000 },
+				{ suffix: "_count", value: stats.cleanups },
+			],
+		},
+	];
+
+	const lines = metrics.flatMap((metric) => {
+		// The Prometheus format names counter families after their samples, OpenMetrics without the _total suffix
+		const family = metric.type === "counter" && !openMetrics ? `${metric.name}_total` : metric.name;
+
+		return [
+			`# HELP ${family} ${metric.help}`,
+			`# TYPE ${family} ${metric.type}`,
+			...metric.samples.map((sample) => `${metric.name}${sample.suffix ?? ""}${formatLabels({ ...labels, ...sample.labels })} ${sample.value}`),
+		];
+	});
+
+	if (openMetrics) lines.push("# EOF");
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Gets the allowed and limited request samples, per endpoint and algorithm or per algorithm only.
+ */
+function getRequestSamples(stats: RateLimiterStats, byEndpoint: boolean): Sample[] {
+	const groups = new Map<string, { labels: Record<string, string>; stats: RequestStats }>();
+
+	for (const [endpoint, endpointStats] of Object.entries(stats.endpoints)) {
+		for (const [algorithm, { checks, limited }] of Object.entries(endpointStats.algorithms)) {
+			const labels: Record<string, string> = byEndpoint ? { endpoint, algorithm } : { algorithm };
+			const key = JSON.stringify(labels);
+			const group = groups.get(key) ?? { labels, stats: { checks: 0, limited: 0 } };
+
+			group.stats.checks += checks;
+			group.stats.limited += limited;
+			groups.set(key, group);
+		}
+	}
+
+	return Array.from(groups.values()).flatMap(({ labels, stats }) => [
+		{ suffix: "_total", labels: { ...labels, result: "allowed" }, value: stats.checks - stats.limited },
+		{ suffix: "_total", labels: { ...labels, result: "limited" }, value: stats.limited },
+	]);
+}
+
+/**
+ * Formats the labels of a sample, escaping backslashes, quotes and line feeds in their values.
+ */
+function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.entries(labels).map(([name, value]) => `${name}="${value.replace(/[\\"\n]/g, (char) => (char === "\n" ? "\\n" : `\\${char}`))}"`);
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
@@ -0,0 +1,113 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import type { RateLimiter } from "./index";
+import { systemScheduler } from "./clock";
+import type { RateLimiterSnapshot, Scheduler } from "./types";
+
+/**
+ * Options for persisting snapshots to a local file.
+ */
+export interface SnapshotFileOptions {
+	/**
+	 * Path of the snapshot file.
+	 */
+	path: string;
+	/**
+	 * Time between two snapshots in milliseconds.
+	 * @default 60000 (1 minute)
+	 */
+	interval?: number;
+	/**
+	 * Timers scheduling the snapshots, e.g. a ManualClock in tests.
+	 * @default The global setInterval
+	 */
+	scheduler?: Scheduler;
+	/**
+	 * Called when a periodic snapshot has been written, e.g. to wait for it in tests.
+	 */
+	onSave?: () => void;
+	/**
+	 * Called when a periodic snapshot fails. Failed snapshots are retried at the next interval.
+	 */
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * Writes a snapshot of the limiter to a file as JSON.
+ * The file is replaced atomically, so a crash while writing never leaves a partial snapshot behind.
+ *
+ * @param limiter - Rate limiter to export
+ * @param path - Path of the snapshot file
+ *
+ * @example
+ * process.on("SIGTERM", async () => {
+ *   await saveSnapshot(limiter, "./rate-limits.json");
+ *   process.exit(0);
+ * });
+ */
+export async function saveSnapshot(limiter: RateLimiter, path: string): Promise<void> {
+	const snapshot = await limiter.exportAsync();
+	const temporaryPath = `${path}.tmp`;
+
+	await writeFile(temporaryPath, JSON.stringify(snapshot));
+	await rename(temporaryPath, path);
+}
+
+/**
+ * Imports the snapshot stored in a file into the limiter.
+ *
+ * @param limiter - Rate limiter to import into
+ * @param path - Path of the snapshot file
+ * @returns Number of imported entries, 0 if the file doesn't exist
+ * @throws {Error} If the file isn't a valid snapshot
+ *
+ * @example
+ * const limiter = new RateLimiter({ max: 100 });
+ * await loadSnapshot(limiter, "./rate-limits.json");
+ */
+export async function loadSnapshot(limiter: RateLimiter, path: string): Promise<number> {
+	let content: string;
+	try {
+		content = await readFile(path, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+		throw error;
+	}
+
+	return limiter.importAsync(JSON.parse(content) as RateLimiterSnapshot);
+}
+
+/**
+ * Restores the limiter from a snapshot file and keeps the file up to date with periodic snapshots,
+ * so deploys and restarts don't give every client a fresh quota.
+ *
+ * @param limiter - Rate limiter to persist
+ * @param options - Snapshot file and interval
+ * @returns Function stopping the periodic snapshots after writing a final one
+ *
+ * @example
+ * const limiter = new RateLimiter({ max: 100 });
+ * const stop = await persistSnapshots(limiter, { path: "./rate-limits.json", interval: 30_000 });
+ *
+ * process.on("SIGTERM", async () => {
+ *   await stop();
+ *   process.exit(0);
+ * });
+ */
+export async function persistSnapshots(limiter: RateLimiter, options: SnapshotFileOptions): Promise<() => Promise<void>> {
+	const { path, interval = 60_000, scheduler = systemScheduler, onSave = () => {}, onError = () => {} } = options;
+	let saving: Promise<void> | undefined;
+
+	const save = () => {
+		saving ??= saveSnapshot(limiter, path).finally(() => (saving = undefined));
+		return saving;
+	};
+
+	await loadSnapshot(limiter, path);
+	const handle = scheduler.setInterval(() => save().then(onSave, onError), interval);
+
+	return async () => {
+		scheduler.clearInterval(handle);
+		await saving?.catch(() => {});
+		await save();
+	};
+}
@@ -0,0 +1,227 @@
+import type { Entry, MemoryStoreOptions, RateLimitStore, StoreKey } from "../types";
+
+/**
+ * Width in milliseconds of the slots of the expiry wheel.
+ */
+const EXPIRY_SLOT_WIDTH = 1000;
+
+/**
+ * The default in-memory store backed by a Map.
+ * State is local to the current process and lost on restart.
+ *
+ * Keys are also filed in a timing wheel by their resetTime, one slot per second,
+ * so removing expired entries only touches the slots that expired instead of the whole map.
+ *
+ * @example
+ * const limiter = new RateLimiter({ store: new MemoryStore() });
+ *
+ * @example
+ * // Keep at most 100,000 entries, evicting the least recently used ones
+ * const limiter = new RateLimiter({ store: new MemoryStore({ maxEntries: 100_000 }) });
+ */
+export class MemoryStore implements RateLimitStore {
+	/**
+	 * The size is the size of the map.
+	 */
+	public readonly tracksSize = true;
+
+	/**
+	 * Internal map holding the tracked entries, ordered from least to most recently used when maxEntries is set.
+	 * @private
+	 */
+	private readonly map: Map<StoreKey, Entry> = new Map();
+
+	/**
+	 * Keys by the slot of the expiry wheel their entry expires in.
+	 * @private
+	 */
+	private readonly expirySlots: Map<number, Set<StoreKey>> = new Map();
+
+	/**
+	 * First slot of the expiry wheel that hasn't been swept yet, Infinity when the wheel is empty.
+	 * @private
+	 */
+	private nextExpirySlot = Infinity;
+
+	/**
+	 * Maximum number of entries to keep, 0 for no limit.
+	 * @private
+	 */
+	private readonly maxEntries: number;
+
+	/**
+	 * Called with every evicted entry.
+	 * @private
+	 */
+	private readonly onEvict?: (key: StoreKey, entry: Entry) => void;
+
+	/**
+	 * Creates a new memory store.
+	 * @param options - Entry limit and eviction callback
+	 */
+	constructor(options: MemoryStoreOptions = {}) {
+		this.maxEntries = options.maxEntries ?? 0;
+		this.onEvict = options.onEvict;
+	}
+
+	public get(key: StoreKey): Entry | undefined {
+		const entry = this.map.get(key);
+		if (entry && this.maxEntries > 0) {
+			this.map.delete(key);
+			this.map.set(key, entry);
+		}
+		return entry;
+	}
+
+	public set(key: StoreKey, entry: Entry): void {
+		this.store(key, entry);
+	}
+
+	public delete(key: StoreKey): boolean {
+		const entry = this.map.get(key);
+		if (!entry) return false;
+
+		this.unschedule(key, entry);
+		return this.map.delete(key);
+	}
+
+	public increment(key: StoreKey, amount: number, resetTime: number, now: number): Entry {
+		const existingEntry = this.map.get(key);
+		const entry: Entry = existingEntry && existingEntry.resetTime > now ? { ...existingEntry } : { count: 0, resetTime };
+
+		entry.count = (entry.count || 0) + amount;
+
+		this.store(key, entry);
+		return entry;
+	}
+
+	public entries(): IterableIterator<[StoreKey, Entry]> {
+		return this.map.entries();
+	}
+
+	public size(): number {
+		return this.map.size;
+	}
+
+	public clear(): void {
+		this.map.clear();
+		this.expirySlots.clear();
+		this.nextExpirySlot = Infinity;
+	}
+
+	/**
+	 * Removes the entries whose resetTime is at or before now.
+	 * Sweeps the slots of the expiry wheel that ended by now, and checks the entries of the slot containing now one by one.
+	 * @param now - Current timestamp in milliseconds
+	 * @returns The removed entries
+	 */
+	public deleteExpired(now: number): [StoreKey, Entry][] {
+		const currentSlot = Math.floor(now / EXPIRY_SLOT_WIDTH);
+		const deleted: [StoreKey, Entry][] = [];
+
+		// Skip straight to the first filled slot when stepping through the gap would take longer
+		if (currentSlot - this.nextExpirySlot > this.expirySlots.size) {
+			this.nextExpirySlot = this.findFirstSlot();
+		}
+
+		while (this.nextExpirySlot <= currentSlot) {
+			this.sweep(this.nextExpirySlot, now, deleted);
+			this.nextExpirySlot = this.expirySlots.size > 0 ? this.nextExpirySlot + 1 : Infinity;
+		}
+
+		this.sweep(currentSlot + 1, now, deleted);
+		return deleted;
+	}
+
+	/**
+	 * Stores an entry as the most recently used one, evicting the least recently used entries to make room.
+	 * @private
+	 */
+	private store(key: StoreKey, entry: Entry): void {
+		const previous = this.map.get(key);
+		if (previous) this.unschedule(key, previous);
+
+		if (this.maxEntries > 0) {
+			this.map.delete(key);
+
+			while (this.map.size >= this.maxEntries) {
+				const [evictedKey, evictedEntry] = this.map.entries().next().value!;
+				this.delete(evictedKey);
+				this.onEvict?.(evictedKey, evictedEntry);
+			}
+		}
+
+		this.map.set(key, entry);
+		this.schedule(key, entry);
+	}
+
+	/**
+	 * Files a key in the slot of the expiry wheel its entry expires in.
+	 * Entries without a finite resetTime have no slot and stay until they are replaced or deleted.
+	 * @private
+	 */
+	private schedule(key: StoreKey, entry: Entry): void {
+		const slot = Math.ceil(entry.resetTime / EXPIRY_SLOT_WIDTH);
+		if (!Number.isFinite(slot)) return;
+
+		let keys = this.expirySlots.get(slot);
+		if (!keys) {
+			keys = new Set();
+			this.expirySlots.set(slot, keys);
+		}
+
+		keys.add(key);
+		this.nextExpirySlot = Math.min(this.nextExpirySlot, slot);
+	}
+
+	/**
+	 * Removes a key from the slot of the expiry wheel its entry expires in.
+	 * @private
+	 */
+	private unschedule(key: StoreKey, entry: Entry): void {
+		const slot = Math.ceil(entry.resetTime / EXPIRY_SLOT_WIDTH);
+		const keys = this.expirySlots.get(slot);
+		if (keys?.delete(key) && keys.size === 0) {
+			this.expirySlots.delete(slot);
+		}
+	}
+
+	/**
+	 * Removes the expired entries filed in a slot of the expiry wheel, adding them to deleted.
+	 * Entries changed in place since they were filed are moved to their current slot.
+	 * @private
+	 */
+	private sweep(slot: number, now: number, deleted: [StoreKey, Entry][]): void {
+		const keys = this.expirySlots.get(slot);
+		if (!keys) return;
+
+		for (const key of keys) {
+			const entry = this.map.get(key);
+			if (entry && entry.resetTime > now && Math.ceil(entry.resetTime / EXPIRY_SLOT_WIDTH) === slot) continue;
+
+			keys.delete(key);
+			if (!entry) continue;
+
+			if (entry.resetTime <= now) {
+				this.delete(key);
+				deleted.push([key, entry]);
+			} else {
+				this.schedule(key, entry);
+			}
+		}
+
+		if (keys.size === 0) this.expirySlots.delete(slot);
+	}
+
+	/**
+	 * Finds the earliest filled slot of the expiry wheel.
+	 * @private
+	 */
+	private findFirstSlot(): number {
+		let first = Infinity;
+		for (const slot of this.expirySlots.keys()) {
+			first = Math.min(first, slot);
+		}
+		return first;
+	}
+}
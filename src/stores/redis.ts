@@ -0,0 +1,587 @@
+import {
+	Algorithm,
+	type CheckOptions,
+	type Entry,
+	type RateLimitConfig,
+	type RateLimitStore,
+	type RedisClient,
+	type RedisStoreOptions,
+	type StoreKey,
+} from "../types";
+
+/**
+ * Numeric entry fields persisted as hash fields.
+ * Sliding window buckets are stored as additional "b:<timestamp>" fields.
+ */
+const ENTRY_FIELDS = ["count", "previousCount", "windowStart", "tokens", "lastRefill", "level", "lastLeak", "tat", "resetTime"] as const;
+
+/**
+ * Formats numbers without losing precision, as Lua numbers passed to Redis
+ * are otherwise truncated to integers or rounded to 14 digits.
+ */
+const FORMAT_NUMBER = `local function num(value) return string.format("%.17g", value) end`;
+
+/**
+ * Adds ARGV[1] to the count, starting a new window that ends at ARGV[2]
+ * when the stored one expired before ARGV[3] (now).
+ * Replies with the computed fields, as PEXPIREAT deletes the key right away
+ * when the server's clock is already past the reset time.
+ */
+const INCREMENT_SCRIPT = `${FORMAT_NUMBER}
+local resetTime = tonumber(redis.call("HGET", KEYS[1], "resetTime"))
+if not resetTime or resetTime <= tonumber(ARGV[3]) then
+	resetTime = tonumber(ARGV[2])
+	redis.call("DEL", KEYS[1])
+	redis.call("HSET", KEYS[1], "resetTime", ARGV[2])
+end
+local count = redis.call("HINCRBYFLOAT", KEYS[1], "count", ARGV[1])
+redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+return { "count", count, "resetTime", num(resetTime) }
+`;
+
+/**
+ * Fixed window algorithm.
+ * ARGV: now, cost, consumeRejected, window, max
+ */
+const FIXED_WINDOW_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local state = redis.call("HMGET", KEYS[1], "count", "resetTime")
+local count = tonumber(state[1]) or 0
+local resetTime = tonumber(state[2])
+if not resetTime or resetTime <= now then
+	count = 0
+	resetTime = now + tonumber(ARGV[4])
+end
+count = count + tonumber(ARGV[2])
+if count <= tonumber(ARGV[5]) or ARGV[3] == "1" then
+	redis.call("HSET", KEYS[1], "count", num(count), "resetTime", num(resetTime))
+	redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+end
+return { "count", num(count), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Sliding window algorithm.
+ * A rejected request that doesn't consume leaves the live buckets as they are, and they are
+ * reported along with the totals the request would have brought.
+ * The hash is read back before PEXPIREAT, which deletes it right away when the server's clock is past the reset time.
+ * ARGV: now, cost, consumeRejected, window, precision, max
+ */
+const SLIDING_WINDOW_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local window = tonumber(ARGV[4])
+local precision = tonumber(ARGV[5])
+local roundedNow = now - now % precision
+local windowStart = roundedNow - window
+local bucket = "b:" .. string.format("%.0f", roundedNow)
+local fields = redis.call("HGETALL", KEYS[1])
+local expired = {}
+local count = cost
+local bucketCount = cost
+local newest = roundedNow
+for i = 1, #fields, 2 do
+	if string.sub(fields[i], 1, 2) == "b:" then
+		local timestamp = tonumber(string.sub(fields[i], 3))
+		if timestamp <= windowStart then
+			table.insert(expired, fields[i])
+		else
+			count = count + tonumber(fields[i + 1])
+			newest = math.max(newest, timestamp)
+			if fields[i] == bucket then
+				bucketCount = bucketCount + tonumber(fields[i + 1])
+			end
+		end
+	end
+end
+local resetTime = newest + window
+for _, field in ipairs(expired) do
+	redis.call("HDEL", KEYS[1], field)
+end
+if count > tonumber(ARGV[6]) and ARGV[3] ~= "1" then
+	local reply = redis.call("HGETALL", KEYS[1])
+	table.insert(reply, "count")
+	table.insert(reply, num(count))
+	table.insert(reply, "resetTime")
+	table.insert(reply, num(resetTime))
+	return reply
+end
+redis.call("HSET", KEYS[1], bucket, num(bucketCount), "count", num(count), "resetTime", num(resetTime))
+local reply = redis.call("HGETALL", KEYS[1])
+redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+return reply
+`;
+
+/**
+ * Sliding window counter algorithm.
+ * ARGV: now, cost, consumeRejected, window, max
+ */
+const SLIDING_WINDOW_COUNTER_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[4])
+local windowStart = now - now % window
+local state = redis.call("HMGET", KEYS[1], "count", "previousCount", "windowStart")
+local count = tonumber(state[1]) or 0
+local previousCount = tonumber(state[2]) or 0
+local storedStart = tonumber(state[3])
+if storedStart ~= windowStart then
+	if storedStart == windowStart - window then
+		previousCount = count
+	else
+		previousCount = 0
+	end
+	count = 0
+end
+count = count + tonumber(ARGV[2])
+local resetTime = windowStart + 2 * window
+local weightedCount = previousCount * math.max(1 - (now - windowStart) / window, 0) + count
+if weightedCount <= tonumber(ARGV[5]) + 1e-9 or ARGV[3] == "1" then
+	redis.call("HSET", KEYS[1], "count", num(count), "previousCount", num(previousCount), "windowStart", num(windowStart), "resetTime", num(resetTime))
+	redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+end
+return { "count", num(count), "previousCount", num(previousCount), "windowStart", num(windowStart), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Token bucket algorithm. The entry expires once the bucket has refilled completely.
+ * ARGV: now, cost, consumeRejected, max, refillRate, refillInterval
+ */
+const TOKEN_BUCKET_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local max = tonumber(ARGV[4])
+local refillRate = tonumber(ARGV[5])
+local refillInterval = tonumber(ARGV[6])
+local state = redis.call("HMGET", KEYS[1], "tokens", "lastRefill")
+local tokens = tonumber(state[1]) or max
+local lastRefill = tonumber(state[2]) or now
+local tokensToAdd = math.floor((now - lastRefill) / refillInterval) * refillRate
+if tokensToAdd > 0 then
+	tokens = math.min(math.max(tokens + tokensToAdd, tokensToAdd), max)
+	lastRefill = now
+end
+tokens = tokens - tonumber(ARGV[2])
+local resetTime = lastRefill + math.ceil(math.max(max - math.max(tokens, 0), 0) / refillRate) * refillInterval
+if tokens >= 0 or ARGV[3] == "1" then
+	redis.call("HSET", KEYS[1], "tokens", num(tokens), "lastRefill", num(lastRefill), "resetTime", num(resetTime))
+	redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+end
+return { "tokens", num(tokens), "lastRefill", num(lastRefill), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Leaky bucket algorithm. Requests that overflow the bucket are dropped, so consumeRejected is ignored.
+ * ARGV: now, cost, consumeRejected, max, leakRate, leakInterval
+ */
+const LEAKY_BUCKET_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local leakPerMs = tonumber(ARGV[5]) / tonumber(ARGV[6])
+local state = redis.call("HMGET", KEYS[1], "level", "lastLeak")
+local level = tonumber(state[1]) or 0
+local lastLeak = tonumber(state[2]) or now
+level = math.max(level - (now - lastLeak) * leakPerMs, 0) + tonumber(ARGV[2])
+local resetTime = now + level / leakPerMs
+if level <= tonumber(ARGV[4]) then
+	redis.call("HSET", KEYS[1], "level", num(level), "lastLeak", num(now), "resetTime", num(resetTime))
+	redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+end
+return { "level", num(level), "lastLeak", num(now), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Generic cell rate algorithm. A request that doesn't conform never moves the theoretical arrival time,
+ * so consumeRejected is ignored.
+ * ARGV: now, cost, consumeRejected, window, max
+ */
+const GCRA_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local max = tonumber(ARGV[5])
+local emissionInterval = tonumber(ARGV[4]) / max
+local tat = tonumber(redis.call("HGET", KEYS[1], "tat")) or now
+tat = math.max(tat, now) + emissionInterval * tonumber(ARGV[2])
+if (tat - now) / emissionInterval <= max + 1e-9 then
+	redis.call("HSET", KEYS[1], "tat", num(tat), "resetTime", num(tat))
+	redis.call("PEXPIREAT", KEYS[1], math.ceil(tat))
+end
+return { "tat", num(tat), "resetTime", num(tat) }
+`;
+
+/**
+ * Fixed window refund, only while the window the request was counted in lasts.
+ * Replies with nil when no window is running.
+ * ARGV: now, cost, timestamp, window
+ */
+const FIXED_WINDOW_REFUND_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local state = redis.call("HMGET", KEYS[1], "count", "resetTime")
+local count = tonumber(state[1])
+local resetTime = tonumber(state[2])
+if not count or not resetTime or resetTime <= now then
+	return nil
+end
+local timestamp = tonumber(ARGV[3])
+if count > 0 and (not timestamp or timestamp >= resetTime - tonumber(ARGV[4])) then
+	count = count - math.min(tonumber(ARGV[2]), count)
+	redis.call("HSET", KEYS[1], "count", num(count))
+end
+return { "count", num(count), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Sliding window refund, taken out of the bucket of the timestamp or the newest bucket.
+ * Replies with nil when nothing is stored.
+ * ARGV: now, cost, timestamp, window, precision
+ */
+const SLIDING_WINDOW_REFUND_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local timestamp = tonumber(ARGV[3])
+local window = tonumber(ARGV[4])
+local precision = tonumber(ARGV[5])
+local windowStart = now - now % precision - window
+local fields = redis.call("HGETALL", KEYS[1])
+if #fields == 0 then
+	return nil
+end
+local buckets = {}
+local count = 0
+local newest
+for i = 1, #fields, 2 do
+	if string.sub(fields[i], 1, 2) == "b:" then
+		local bucket = tonumber(string.sub(fields[i], 3))
+		if bucket <= windowStart then
+			redis.call("HDEL", KEYS[1], fields[i])
+		else
+			buckets[bucket] = tonumber(fields[i + 1])
+			count = count + buckets[bucket]
+			if not newest or bucket > newest then
+				newest = bucket
+			end
+		end
+	end
+end
+if newest then
+	local bucket = newest
+	if timestamp then
+		bucket = timestamp - timestamp % precision
+	end
+	local bucketCount = buckets[bucket] or 0
+	local refunded = math.min(cost, bucketCount)
+	if bucketCount > refunded then
+		buckets[bucket] = bucketCount - refunded
+		redis.call("HSET", KEYS[1], "b:" .. string.format("%.0f", bucket), num(buckets[bucket]))
+	elseif bucketCount > 0 then
+		buckets[bucket] = nil
+		redis.call("HDEL", KEYS[1], "b:" .. string.format("%.0f", bucket))
+	end
+	count = count - refunded
+	newest = nil
+	for live in pairs(buckets) do
+		if not newest or live > newest then
+			newest = live
+		end
+	end
+end
+redis.call("HSET", KEYS[1], "count", num(count))
+if newest then
+	redis.call("HSET", KEYS[1], "resetTime", num(newest + window))
+end
+local reply = redis.call("HGETALL", KEYS[1])
+if newest then
+	redis.call("PEXPIREAT", KEYS[1], math.ceil(newest + window))
+end
+return reply
+`;
+
+/**
+ * Sliding window counter refund, only while the window the request was counted in
+ * is the current or the previous one. Replies with nil when nothing is stored.
+ * ARGV: now, cost, timestamp, window
+ */
+const SLIDING_WINDOW_COUNTER_REFUND_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local window = tonumber(ARGV[4])
+local windowStart = now - now % window
+local state = redis.call("HMGET", KEYS[1], "count", "previousCount", "windowStart", "resetTime")
+local resetTime = tonumber(state[4])
+if not resetTime then
+	return nil
+end
+local count = tonumber(state[1]) or 0
+local previousCount = tonumber(state[2]) or 0
+local storedStart = tonumber(state[3])
+if storedStart ~= windowStart then
+	if storedStart == windowStart - window then
+		previousCount = count
+	else
+		previousCount = 0
+	end
+	count = 0
+end
+local requestTime = tonumber(ARGV[3]) or now
+if requestTime >= windowStart then
+	count = math.max(count - cost, 0)
+elseif requestTime >= windowStart - window then
+	previousCount = math.max(previousCount - cost, 0)
+end
+redis.call("HSET", KEYS[1], "count", num(count), "previousCount", num(previousCount), "windowStart", num(windowStart))
+return { "count", num(count), "previousCount", num(previousCount), "windowStart", num(windowStart), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Token bucket refund, without going over the capacity. Replies with nil when nothing is stored.
+ * ARGV: now, cost, timestamp, max, refillRate, refillInterval
+ */
+const TOKEN_BUCKET_REFUND_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local max = tonumber(ARGV[4])
+local refillRate = tonumber(ARGV[5])
+local refillInterval = tonumber(ARGV[6])
+local state = redis.call("HMGET", KEYS[1], "tokens", "lastRefill")
+local tokens = tonumber(state[1])
+local lastRefill = tonumber(state[2])
+if not tokens or not lastRefill then
+	return nil
+end
+local tokensToAdd = math.floor((now - lastRefill) / refillInterval) * refillRate
+if tokensToAdd > 0 then
+	tokens = math.min(math.max(tokens + tokensToAdd, tokensToAdd), max)
+	lastRefill = now
+end
+tokens = math.min(tokens + tonumber(ARGV[2]), max)
+local resetTime = lastRefill + math.ceil(math.max(max - math.max(tokens, 0), 0) / refillRate) * refillInterval
+redis.call("HSET", KEYS[1], "tokens", num(tokens), "lastRefill", num(lastRefill), "resetTime", num(resetTime))
+redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+return { "tokens", num(tokens), "lastRefill", num(lastRefill), "resetTime", num(resetTime) }
+`;
+
+/**
+ * Leaky bucket refund, without draining below empty. Replies with nil when nothing is stored.
+ * ARGV: now, cost, timestamp, leakRate, leakInterval
+ */
+const LEAKY_BUCKET_REFUND_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local leakPerMs = tonumber(ARGV[4]) / tonumber(ARGV[5])
+local state = redis.call("HMGET", KEYS[1], "level", "lastLeak")
+local level = tonumber(state[1])
+local lastLeak = tonumber(state[2])
+if not level or not lastLeak then
+	return nil
+end
+level = math.max(math.max(level - (now - lastLeak) * leakPerMs, 0) - tonumber(ARGV[2]), 0)
+local resetTime = now + level / leakPerMs
+redis.call("HSET", KEYS[1], "level", num(level), "lastLeak", num(now), "resetTime", num(resetTime))
+redis.call("PEXPIREAT", KEYS[1], math.ceil(resetTime))
+return { "level", num(level), "lastLeak", num(now), "resetTime", num(resetTime) }
+`;
+
+/**
+ * GCRA refund, moving the theoretical arrival time back without going before now.
+ * Replies with nil when nothing is stored.
+ * ARGV: now, cost, timestamp, window, max
+ */
+const GCRA_REFUND_SCRIPT = `${FORMAT_NUMBER}
+local now = tonumber(ARGV[1])
+local tat = tonumber(redis.call("HGET", KEYS[1], "tat"))
+if not tat then
+	return nil
+end
+tat = math.max(tat - tonumber(ARGV[4]) / tonumber(ARGV[5]) * tonumber(ARGV[2]), now)
+redis.call("HSET", KEYS[1], "tat", num(tat), "resetTime", num(tat))
+redis.call("PEXPIREAT", KEYS[1], math.ceil(tat))
+return { "tat", num(tat), "resetTime", num(tat) }
+`;
+
+/**
+ * Replaces the hash with the field/value pairs in ARGV[2..], expiring it at ARGV[1].
+ */
+const SET_SCRIPT = `
+redis.call("DEL", KEYS[1])
+for i = 2, #ARGV, 2 do
+	redis.call("HSET", KEYS[1], ARGV[i], ARGV[i + 1])
+end
+redis.call("PEXPIREAT", KEYS[1], ARGV[1])
+`;
+
+/**
+ * A store keeping entries on a server speaking the Redis protocol (Redis, Valkey, KeyDB, ...).
+ * Every algorithm and every refund runs as a server-side Lua script, so replicas sharing the server can't race on the same key.
+ * Entries expire through key TTLs, which makes the rate limiter's periodic cleanup unnecessary.
+ *
+ * Requests are timestamped by the calling process, so replicas should keep their clocks synchronized.
+ *
+ * @example
+ * import { RedisClient } from "bun";
+ *
+ * const limiter = new RateLimiter({
+ *   store: new RedisStore({ client: new RedisClient("redis://localhost:6379") }),
+ * });
+ * const result = await limiter.checkAsync("/api/login", "192.168.1.1");
+ */
+export class RedisStore implements RateLimitStore {
+	/**
+	 * Entries expire through key TTLs.
+	 */
+	public readonly handlesExpiry = true;
+
+	/**
+	 * Client used to send commands to the server.
+	 * @private
+	 */
+	private readonly client: RedisClient;
+
+	/**
+	 * Prefix added to every key stored in Redis.
+	 * @private
+	 */
+	private readonly prefix: string;
+
+	/**
+	 * Creates a new Redis store.
+	 * @param options - Client and key prefix to use
+	 */
+	constructor(options: RedisStoreOptions) {
+		this.client = options.client;
+		this.prefix = options.prefix ?? "rate-limiter:";
+	}
+
+	public async get(key: StoreKey): Promise<Entry | undefined> {
+		return this.parseEntry(await this.client.send("HGETALL", [this.prefix + key]));
+	}
+
+	public async set(key: StoreKey, entry: Entry): Promise<void> {
+		await this.evaluate(SET_SCRIPT, key, [Math.ceil(entry.resetTime), ...this.serializeEntry(entry)]);
+	}
+
+	public async delete(key: StoreKey): Promise<boolean> {
+		return Number(await this.client.send("DEL", [this.prefix + key])) > 0;
+	}
+
+	public async increment(key: StoreKey, amount: number, resetTime: number, now: number): Promise<Entry> {
+		return this.parseEntry(await this.evaluate(INCREMENT_SCRIPT, key, [amount, resetTime, now]))!;
+	}
+
+	public async *entries(): AsyncGenerator<[StoreKey, Entry]> {
+		for await (const keys of this.scanKeys()) {
+			for (const redisKey of keys) {
+				const key = redisKey.slice(this.prefix.length);
+				const entry = await this.get(key);
+				if (entry) yield [key, entry];
+			}
+		}
+	}
+
+	public async size(): Promise<number> {
+		let size = 0;
+		for await (const keys of this.scanKeys()) {
+			size += keys.length;
+		}
+		return size;
+	}
+
+	public async clear(): Promise<void> {
+		for await (const keys of this.scanKeys()) {
+			if (keys.length > 0) await this.client.send("DEL", keys);
+		}
+	}
+
+	public async consume(key: StoreKey, now: number, config: Readonly<RateLimitConfig>, options: Required<CheckOptions>): Promise<Entry> {
+		const args = [now, options.cost, options.consumeRejected ? 1 : 0];
+
+		switch (config.algorithm) {
+			case Algorithm.FIXED_WINDOW:
+				return this.parseEntry(await this.evaluate(FIXED_WINDOW_SCRIPT, key, [...args, config.window!, config.max!]))!;
+			case Algorithm.SLIDING_WINDOW:
+				return this.parseEntry(await this.evaluate(SLIDING_WINDOW_SCRIPT, key, [...args, config.window!, config.precision!, config.max!]))!;
+			case Algorithm.SLIDING_WINDOW_COUNTER:
+				return this.parseEntry(await this.evaluate(SLIDING_WINDOW_COUNTER_SCRIPT, key, [...args, config.window!, config.max!]))!;
+			case Algorithm.TOKEN_BUCKET:
+				return this.parseEntry(await this.evaluate(TOKEN_BUCKET_SCRIPT, key, [...args, config.max!, config.refillRate!, config.refillInterval!]))!;
+			case Algorithm.LEAKY_BUCKET:
+				return this.parseEntry(await this.evaluate(LEAKY_BUCKET_SCRIPT, key, [...args, config.max!, config.leakRate!, config.leakInterval!]))!;
+			case Algorithm.GCRA:
+				return this.parseEntry(await this.evaluate(GCRA_SCRIPT, key, [...args, config.window!, config.max!]))!;
+			default:
+				throw new Error(`Unknown algorithm: ${config.algorithm}`);
+		}
+	}
+
+	public async refund(key: StoreKey, now: number, config: Readonly<RateLimitConfig>, cost: number, timestamp?: number): Promise<Entry | undefined> {
+		const args = [now, cost, timestamp ?? ""];
+
+		switch (config.algorithm) {
+			case Algorithm.FIXED_WINDOW:
+				return this.parseEntry(await this.evaluate(FIXED_WINDOW_REFUND_SCRIPT, key, [...args, config.window!]));
+			case Algorithm.SLIDING_WINDOW:
+				return this.parseEntry(await this.evaluate(SLIDING_WINDOW_REFUND_SCRIPT, key, [...args, config.window!, config.precision!]));
+			case Algorithm.SLIDING_WINDOW_COUNTER:
+				return this.parseEntry(await this.evaluate(SLIDING_WINDOW_COUNTER_REFUND_SCRIPT, key, [...args, config.window!]));
+			case Algorithm.TOKEN_BUCKET:
+				return this.parseEntry(await this.evaluate(TOKEN_BUCKET_REFUND_SCRIPT, key, [...args, config.max!, config.refillRate!, config.refillInterval!]));
+			case Algorithm.LEAKY_BUCKET:
+				return this.parseEntry(await this.evaluate(LEAKY_BUCKET_REFUND_SCRIPT, key, [...args, config.leakRate!, config.leakInterval!]));
+			case Algorithm.GCRA:
+				return this.parseEntry(await this.evaluate(GCRA_REFUND_SCRIPT, key, [...args, config.window!, config.max!]));
+			default:
+				throw new Error(`Unknown algorithm: ${config.algorithm}`);
+		}
+	}
+
+	/**
+	 * Runs a Lua script against the hash stored under key.
+	 * @private
+	 */
+	private evaluate(script: string, key: StoreKey, args: (string | number)[]): Promise<unknown> {
+		return this.client.send("EVAL", [script, "1", this.prefix + key, ...args.map(String)]);
+	}
+
+	/**
+	 * Iterates over batches of keys belonging to this store.
+	 * @private
+	 */
+	private async *scanKeys(): AsyncGenerator<string[]> {
+		const pattern = `${this.prefix.replace(/[*?[\]\\]/g, "\\$&")}*`;
+		let cursor = "0";
+
+		do {
+			const [nextCursor, keys] = (await this.client.send("SCAN", [cursor, "MATCH", pattern, "COUNT", "100"])) as [string, string[]];
+			cursor = String(nextCursor);
+			yield keys;
+		} while (cursor !== "0");
+	}
+
+	/**
+	 * Converts a hash reply (flat field/value list or object) to an entry.
+	 * @private
+	 */
+	private parseEntry(reply: unknown): Entry | undefined {
+		const fields: unknown[] = Array.isArray(reply) ? reply : Object.entries(reply ?? {}).flat();
+		if (fields.length === 0) return undefined;
+
+		const entry: Entry = { resetTime: 0 };
+		for (let i = 0; i < fields.length; i += 2) {
+			const field = String(fields[i]);
+			const value = Number(fields[i + 1]);
+
+			if (field.startsWith("b:")) {
+				(entry.buckets ??= new Map()).set(Number(field.slice(2)), value);
+			} else if ((ENTRY_FIELDS as readonly string[]).includes(field)) {
+				entry[field as (typeof ENTRY_FIELDS)[number]] = value;
+			}
+		}
+		return entry;
+	}
+
+	/**
+	 * Converts an entry to a flat field/value list.
+	 * @private
+	 */
+	private serializeEntry(entry: Entry): string[] {
+		const args: string[] = [];
+		for (const field of ENTRY_FIELDS) {
+			if (entry[field] !== undefined) args.push(field, String(entry[field]));
+		}
+		entry.buckets?.forEach((count, timestamp) => args.push(`b:${timestamp}`, String(count)));
+		return args;
+	}
+}
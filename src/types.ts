@@ -12,6 +12,8 @@ export interface RateLimitResult {
 	readonly remaining: number;
 	/**
 	 * Timestamp (in milliseconds since epoch) when the rate limit window resets.
+	 * For token buckets, when the bucket has refilled completely.
+	 * For sliding windows, when the newest request leaves the window.
 	 */
 	readonly reset: number;
 	/**
@@ -26,6 +28,277 @@ export interface RateLimitResult {
 	 * The rate limit window duration in milliseconds.
 	 */
 	readonly window: number;
+	/**
+	 * Milliseconds until the next request would be allowed. 0 if it would be allowed now.
+	 */
+	readonly retryAfter: number;
+	/**
+	 * Time in milliseconds since epoch at which the limiter checked the request, read from its clock.
+	 * Pass it to refund so the cost goes back to the bucket and window the request was counted in.
+	 */
+	readonly timestamp: number;
+	/**
+	 * Leaky Bucket Specific:
+	 * Milliseconds the request has to wait before it leaves the bucket
+	 * when requests are sent at the leak rate. 0 means it can be sent immediately.
+	 * Omitted for limited requests, which overflow the bucket and are dropped.
+	 */
+	readonly delay?: number;
+
+	/**
+	 * Name of the rule that applied to the request, or "default" when none matched.
+	 * Only present when rules are configured.
+	 */
+	readonly rule?: string;
+	/**
+	 * Results of the individual limits when several are configured.
+	 * The other fields describe the strictest of them, with the latest reset.
+	 */
+	readonly limits?: RateLimitResult[];
+	/**
+	 * Name of the tier the identifier resolved to. Only present when it resolved to one.
+	 */
+	readonly tier?: string;
+	/**
+	 * Whether the identifier is on the allowlist. Bypassed requests are allowed without being recorded.
+	 * Only present when true.
+	 */
+	readonly bypassed?: boolean;
+	/**
+	 * Whether the identifier is on the denylist. Denied requests are always limited, count towards
+	 * no limit, and have reset and retryAfter set to Infinity as waiting never allows them.
+	 * Only present when true.
+	 */
+	readonly denied?: boolean;
+}
+
+/**
+ * Counters describing the activity of a rate limiter.
+ */
+export interface RateLimiterStats {
+	/**
+	 * Number of tracked entries.
+	 */
+	size: number;
+	/**
+	 * Number of checked requests, including the ones checked while the store was failing.
+	 */
+	checks: number;
+	/**
+	 * Number of limited requests.
+	 */
+	limited: number;
+	/**
+	 * Checks and limited requests per endpoint. Endpoints beyond the first maxStatsEndpoints are counted under "*".
+	 */
+	endpoints: Record<string, EndpointStats>;
+	/**
+	 * Entries evicted from the default memory store to stay within maxEntries.
+	 */
+	evictions: number;
+	/**
+	 * Expired entries removed by the periodic cleanup.
+	 */
+	expirations: number;
+	/**
+	 * Number of completed periodic cleanups.
+	 */
+	cleanups: number;
+	/**
+	 * Total time spent in the periodic cleanups in milliseconds.
+	 */
+	cleanupDuration: number;
+	/**
+	 * Requests of new identifiers limited because maxEntries was reached and the evictionPolicy is LIMIT.
+	 */
+	rejections: number;
+}
+
+/**
+ * Counters of checked and limited requests.
+ */
+export interface RequestStats {
+	/**
+	 * Number of checked requests.
+	 */
+	checks: number;
+	/**
+	 * Number of limited requests.
+	 */
+	limited: number;
+}
+
+/**
+ * Counters of the requests to a single endpoint.
+ */
+export interface EndpointStats extends RequestStats {
+	/**
+	 * Counters per algorithm that checked the requests, e.g. "FIXED_WINDOW".
+	 * Requests checked against multiple limits are counted under their algorithms joined by "+".
+	 */
+	algorithms: Record<string, RequestStats>;
+}
+
+/**
+ * Payload of the allowed and limited events.
+ */
+export interface RateLimitEvent {
+	/**
+	 * The checked endpoint.
+	 */
+	endpoint: string;
+	/**
+	 * The checked identifier.
+	 */
+	identifier: string;
+	/**
+	 * Result of the check.
+	 */
+	result: RateLimitResult;
+}
+
+/**
+ * Payload of the entryCreated event.
+ */
+export interface EntryCreatedEvent {
+	/**
+	 * Endpoint of the request that created the entry.
+	 */
+	endpoint: string;
+	/**
+	 * Identifier of the request that created the entry.
+	 */
+	identifier: string;
+	/**
+	 * Store key of the created entry.
+	 */
+	key: StoreKey;
+}
+
+/**
+ * Payload of the entryExpired and entryEvicted events.
+ */
+export interface EntryRemovedEvent {
+	/**
+	 * Store key of the removed entry.
+	 */
+	key: StoreKey;
+	/**
+	 * The removed entry.
+	 */
+	entry: Entry;
+}
+
+/**
+ * Events emitted by a rate limiter, mapped to their payloads.
+ */
+export interface RateLimiterEvents {
+	/**
+	 * A request was allowed.
+	 */
+	allowed: RateLimitEvent;
+	/**
+	 * A request was limited.
+	 */
+	limited: RateLimitEvent;
+	/**
+	 * A request started tracking a new entry.
+	 */
+	entryCreated: EntryCreatedEvent;
+	/**
+	 * The periodic cleanup removed an expired entry.
+	 */
+	entryExpired: EntryRemovedEvent;
+	/**
+	 * The default memory store evicted an entry to stay within maxEntries.
+	 */
+	entryEvicted: EntryRemovedEvent;
+}
+
+/**
+ * Listener of a rate limiter event.
+ */
+export type RateLimiterListener<E extends keyof RateLimiterEvents> = (event: RateLimiterEvents[E]) => void;
+
+/**
+ * Options for a single rate limit check.
+ */
+export interface CheckOptions {
+	/**
+	 * Amount the request consumes from the limit, e.g. query complexity or batch size.
+	 * @default 1
+	 */
+	cost?: number;
+	/**
+	 * Whether a request that is limited still consumes its cost.
+	 * When false, a limited request leaves the stored state unchanged.
+	 * @default The consumeRejected value of the rate limiter's config
+	 */
+	consumeRejected?: boolean;
+}
+
+/**
+ * Options for refunding a request that shouldn't count.
+ */
+export interface RefundOptions {
+	/**
+	 * Amount to give back, usually the cost the request was checked with.
+	 * @default 1
+	 */
+	cost?: number;
+	/**
+	 * Time in milliseconds since epoch at which the refunded request was checked, usually the timestamp of its result.
+	 * Lets sliding window refunds hit the exact bucket and skips refunds for windows that already ended.
+	 * @default The newest bucket or current window
+	 */
+	timestamp?: number;
+}
+
+/**
+ * Options for the headers formatted from a rate limit result.
+ */
+export interface RateLimitHeadersOptions {
+	/**
+	 * Whether to include the RateLimit and RateLimit-Policy headers of the IETF draft standard.
+	 * @default true
+	 */
+	standard?: boolean;
+	/**
+	 * Whether to include the legacy X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers.
+	 * @default false
+	 */
+	legacy?: boolean;
+	/**
+	 * Whether to include the Retry-After header for limited requests.
+	 * @default true
+	 */
+	retryAfter?: boolean;
+}
+
+/**
+ * Options for the Prometheus metrics of a rate limiter.
+ */
+export interface MetricsOptions {
+	/**
+	 * Prefix of the metric names.
+	 * @default "rate_limiter"
+	 */
+	prefix?: string;
+	/**
+	 * Whether to label the request counters by endpoint. When false, requests are only labelled by algorithm and result.
+	 * Identifiers are never used as labels.
+	 * @default true
+	 */
+	endpoints?: boolean;
+	/**
+	 * Labels added to every sample, e.g. { limiter: "api" } to tell multiple limiters apart.
+	 */
+	labels?: Record<string, string>;
+	/**
+	 * Whether to use the OpenMetrics text format instead of the Prometheus text format.
+	 * @default false
+	 */
+	openMetrics?: boolean;
 }
 
 /**
@@ -49,6 +322,15 @@ export interface RateLimitConfig {
 	 * @default 60
 	 */
 	max?: number;
+	/**
+	 * Whether requests that are limited still consume their cost.
+	 * When false, a limited request is rejected without changing any state, so clients
+	 * that keep retrying recover as quickly as clients that wait.
+	 * Leaky Bucket and GCRA never consume limited requests.
+	 * Can be overridden per check through CheckOptions.
+	 * @default true
+	 */
+	consumeRejected?: boolean;
 	/**
 	 * Interval in milliseconds to purge old/expired rate limit entries.
 	 * Only applicable when enableCleanup is true.
@@ -61,6 +343,35 @@ export interface RateLimitConfig {
 	 * @default true
 	 */
 	enableCleanup?: boolean;
+	/**
+	 * Source of the current time, e.g. a ManualClock to control time in tests.
+	 * @default The system clock
+	 */
+	clock?: Clock;
+	/**
+	 * Timers used for the periodic cleanup and store timeouts, e.g. a ManualClock to run them in tests.
+	 * @default The global setInterval and setTimeout
+	 */
+	scheduler?: Scheduler;
+	/**
+	 * Maximum number of entries kept by the default memory store. Set to 0 for no limit.
+	 * Bounds memory when callers rotate through identifiers faster than the cleanup removes them.
+	 * Custom stores enforce their own limit, e.g. new MemoryStore({ maxEntries }).
+	 * @default 0
+	 */
+	maxEntries?: number;
+	/**
+	 * What happens to requests of new identifiers once maxEntries is reached.
+	 * EvictionPolicy.LIMIT requires a store that tracks its size, such as the memory store.
+	 * @default EvictionPolicy.EVICT
+	 */
+	evictionPolicy?: EvictionPolicy;
+	/**
+	 * Maximum number of endpoints counted separately in the stats and metrics.
+	 * Requests to further endpoints are counted under "*", bounding the cardinality of the endpoint label.
+	 * @default 1000
+	 */
+	maxStatsEndpoints?: number;
 	/**
 	 * Token Bucket Specific:
 	 * Number of tokens to add each refill interval.
@@ -80,6 +391,216 @@ export interface RateLimitConfig {
 	 * @default 100
 	 */
 	precision?: number;
+	/**
+	 * Leaky Bucket Specific:
+	 * Number of requests drained from the bucket each leak interval.
+	 * @default 1
+	 */
+	leakRate?: number;
+	/**
+	 * Leaky Bucket Specific:
+	 * How often (in milliseconds) leakRate requests are drained.
+	 * The bucket drains continuously, so fractions of an interval count.
+	 * @default 1000 (1 second)
+	 */
+	leakInterval?: number;
+	/**
+	 * Storage backend for rate limit entries.
+	 * Provide a custom store to share state between processes.
+	 * Stores returning promises can only be used through the asynchronous API.
+	 * @default new MemoryStore()
+	 */
+	store?: RateLimitStore;
+	/**
+	 * How checkAsync and getAsync respond when the store throws or times out, or the tier resolver throws.
+	 * @default FailureMode.THROW
+	 */
+	failureMode?: FailureMode;
+	/**
+	 * Maximum time in milliseconds to wait for an asynchronous store operation
+	 * before treating it as failed. Set to 0 to wait indefinitely.
+	 * @default 0
+	 */
+	storeTimeout?: number;
+	/**
+	 * Rules applying their own limits to matching endpoints and identifiers.
+	 * The first matching rule wins; requests matching none use this config.
+	 * @default []
+	 */
+	rules?: RateLimitRule[];
+	/**
+	 * Limits enforced together, e.g. a burst limit and a sustained limit.
+	 * Each one overrides the algorithm options of this config. A request is limited when any of them
+	 * limits it. A limited request doesn't consume from the limits that allowed it, and only consumes
+	 * from the ones that rejected it when rejected requests consume.
+	 * When set, the max and window of this config itself aren't enforced.
+	 * @default []
+	 */
+	limits?: LimitConfig[];
+	/**
+	 * Named tiers (e.g. plans) with their own limits, selected per identifier through resolveTier.
+	 * Tiers keep the rules of this config, but don't inherit its limits.
+	 * @default {}
+	 */
+	tiers?: Record<string, RuleConfig>;
+	/**
+	 * Resolves the tier of an identifier, either as the name of one of the tiers or as the overrides to apply.
+	 * Identifiers resolving to undefined use this config. Asynchronous resolvers require the asynchronous API.
+	 *
+	 * @example
+	 * resolveTier: async (apiKey) => (await db.getPlan(apiKey)) ?? "free"
+	 */
+	resolveTier?: (identifier: string) => MaybePromise<string | TierConfig | undefined>;
+	/**
+	 * Time in milliseconds to cache the tier resolved for an identifier. Set to 0 to resolve it on every request.
+	 * @default 60000 (1 minute)
+	 */
+	tierCacheTtl?: number;
+	/**
+	 * Identifiers that bypass the limits. Their requests are allowed without creating a store entry.
+	 * Patterns are exact identifiers, IPv4 or IPv6 CIDR ranges, or predicates.
+	 * @default []
+	 *
+	 * @example
+	 * allowlist: ["10.0.0.0/8", "2001:db8::/32", "health-checker", (identifier, endpoint) => endpoint === "/health"]
+	 */
+	allowlist?: IdentifierPattern[];
+	/**
+	 * Identifiers whose requests are always limited, taking precedence over the allowlist.
+	 * Patterns are exact identifiers, IPv4 or IPv6 CIDR ranges, or predicates.
+	 * @default []
+	 */
+	denylist?: IdentifierPattern[];
+	/**
+	 * Normalizes identifiers before they become part of the store keys, so different spellings of
+	 * the same caller share one entry. Identifiers are used verbatim when omitted.
+	 *
+	 * @example
+	 * // Every address of an IPv6 /64 block shares one limit
+	 * identifierNormalization: { ipv6Prefix: 64 }
+	 */
+	identifierNormalization?: IdentifierNormalization;
+}
+
+/**
+ * How identifiers are normalized into store keys.
+ * IP addresses are always written in their canonical form, e.g. 2001:db8::1 for 2001:0DB8:0:0:0:0:0:1.
+ */
+export interface IdentifierNormalization {
+	/**
+	 * Prefix length IPv6 addresses are collapsed to, e.g. 64 to treat a whole /64 block as one caller.
+	 * Collapsed addresses are keyed by their network, e.g. 2001:db8:1:2::/64.
+	 * @default 128
+	 */
+	ipv6Prefix?: number;
+	/**
+	 * Whether IPv4-mapped IPv6 addresses, e.g. ::ffff:192.0.2.1, are keyed by their IPv4 address.
+	 * @default true
+	 */
+	ipv4Mapped?: boolean;
+	/**
+	 * Whether identifiers are lowercased, e.g. for case-insensitive usernames or emails.
+	 * @default false
+	 */
+	lowercase?: boolean;
+	/**
+	 * Custom normalizer, called with the identifier after the other normalizations.
+	 */
+	custom?: (identifier: string) => string;
+}
+
+/**
+ * Pattern of an allowlist or denylist: an exact identifier, an IPv4 or IPv6 CIDR range such as "192.168.0.0/16",
+ * or a predicate. Exact identifiers and predicates match the identifier after identifierNormalization, while
+ * IP addresses match every textual form of the same address.
+ */
+export type IdentifierPattern = string | ((identifier: string, endpoint: string) => boolean);
+
+/**
+ * Config options a limit can override.
+ */
+export type LimitConfig = Pick<RateLimitConfig, "algorithm" | "window" | "max" | "refillRate" | "refillInterval" | "precision" | "leakRate" | "leakInterval">;
+
+/**
+ * Config options a rule can override.
+ * Rules don't inherit the limits of the rate limiter.
+ */
+export type RuleConfig = LimitConfig & Pick<RateLimitConfig, "consumeRejected" | "limits">;
+
+/**
+ * Overrides returned by a tier resolver for a single identifier.
+ *
+ * @example
+ * { name: "enterprise", max: 100_000, window: 3_600_000 }
+ */
+export interface TierConfig extends RuleConfig {
+	/**
+	 * Name of the tier, reported in results and entries.
+	 */
+	name: string;
+}
+
+/**
+ * A policy applying its own limits to the endpoints and identifiers it matches.
+ *
+ * @example
+ * { name: "login", endpoint: "/api/login", max: 5, window: 60_000 }
+ *
+ * @example
+ * { name: "admin", endpoint: "/admin/*", match: MatchType.GLOB, algorithm: Algorithm.TOKEN_BUCKET, max: 10 }
+ */
+export interface RateLimitRule extends RuleConfig {
+	/**
+	 * Name of the rule, reported in the results of the requests it applies to.
+	 */
+	name: string;
+	/**
+	 * Pattern the endpoint has to match. Matches every endpoint when omitted.
+	 */
+	endpoint?: string;
+	/**
+	 * Pattern the identifier has to match. Matches every identifier when omitted.
+	 */
+	identifier?: string;
+	/**
+	 * How the endpoint and identifier patterns are matched.
+	 * @default MatchType.EXACT
+	 */
+	match?: MatchType;
+}
+
+/**
+ * Source of the current time.
+ */
+export interface Clock {
+	/**
+	 * Gets the current time in milliseconds since epoch.
+	 */
+	now(): number;
+}
+
+/**
+ * Timers used by the rate limiter. Handles are opaque to the rate limiter.
+ */
+export interface Scheduler {
+	/**
+	 * Calls callback every ms milliseconds.
+	 * @returns Handle passed to clearInterval
+	 */
+	setInterval(callback: () => void, ms: number): unknown;
+	/**
+	 * Stops an interval.
+	 */
+	clearInterval(handle: unknown): void;
+	/**
+	 * Calls callback once after ms milliseconds.
+	 * @returns Handle passed to clearTimeout
+	 */
+	setTimeout(callback: () => void, ms: number): unknown;
+	/**
+	 * Cancels a timeout.
+	 */
+	clearTimeout(handle: unknown): void;
 }
 
 /**
@@ -88,6 +609,124 @@ export interface RateLimitConfig {
  */
 export type StoreKey = string;
 
+/**
+ * A value that may be returned either directly or wrapped in a promise.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Storage backend used by the rate limiter to persist entries.
+ * Every method may return a promise, which allows stores that perform I/O.
+ */
+export interface RateLimitStore {
+	/**
+	 * Retrieves the entry stored under the given key.
+	 * @returns The stored entry or undefined if none exists
+	 */
+	get(key: StoreKey): MaybePromise<Entry | undefined>;
+	/**
+	 * Stores an entry under the given key, replacing any existing one.
+	 */
+	set(key: StoreKey, entry: Entry): MaybePromise<void>;
+	/**
+	 * Removes the entry stored under the given key.
+	 * @returns Whether an entry was removed
+	 */
+	delete(key: StoreKey): MaybePromise<boolean>;
+	/**
+	 * Adds amount to the count of the entry stored under the given key.
+	 * A new entry expiring at resetTime is started when none exists or the existing one expired before now.
+	 * @returns The updated entry
+	 */
+	increment(key: StoreKey, amount: number, resetTime: number, now: number): MaybePromise<Entry>;
+	/**
+	 * Iterates over all stored entries.
+	 */
+	entries(): Iterable<[StoreKey, Entry]> | AsyncIterable<[StoreKey, Entry]>;
+	/**
+	 * Gets the number of stored entries.
+	 */
+	size(): MaybePromise<number>;
+	/**
+	 * Removes all stored entries.
+	 */
+	clear(): MaybePromise<void>;
+	/**
+	 * Records a request using the configured algorithm in a single atomic operation.
+	 * When implemented, the rate limiter delegates checks to it instead of combining get and set.
+	 * A limited request must leave the stored entry unchanged unless options.consumeRejected is set,
+	 * and always for Leaky Bucket and GCRA.
+	 * @returns The updated entry, describing the state as if the request was counted
+	 */
+	consume?(key: StoreKey, now: number, config: Readonly<RateLimitConfig>, options: Required<CheckOptions>): MaybePromise<Entry>;
+	/**
+	 * Gives back the cost of a request using the configured algorithm in a single atomic operation.
+	 * When implemented, the rate limiter delegates refunds to it instead of combining get and set.
+	 * @param timestamp - When the refunded request was checked, if known
+	 * @returns The updated entry, or undefined if none is stored
+	 */
+	refund?(key: StoreKey, now: number, config: Readonly<RateLimitConfig>, cost: number, timestamp?: number): MaybePromise<Entry | undefined>;
+	/**
+	 * Removes the entries whose resetTime is at or before now.
+	 * When implemented, the periodic cleanup calls it instead of scanning every entry.
+	 * @returns The removed entries
+	 */
+	deleteExpired?(now: number): MaybePromise<[StoreKey, Entry][]>;
+	/**
+	 * Whether the store removes expired entries by itself (e.g. through key TTLs).
+	 * The rate limiter skips its periodic cleanup for such stores.
+	 */
+	readonly handlesExpiry?: boolean;
+	/**
+	 * Whether size() reads a count the store keeps instead of scanning its entries.
+	 * EvictionPolicy.LIMIT requires it, as it reads the size for the first request of every new identifier.
+	 */
+	readonly tracksSize?: boolean;
+}
+
+/**
+ * Configuration options for the memory store.
+ */
+export interface MemoryStoreOptions {
+	/**
+	 * Maximum number of entries to keep. The least recently used entry is evicted to make room for a new one.
+	 * Set to 0 for no limit.
+	 * @default 0
+	 */
+	maxEntries?: number;
+	/**
+	 * Called with every entry evicted to stay within maxEntries.
+	 */
+	onEvict?: (key: StoreKey, entry: Entry) => void;
+}
+
+/**
+ * Minimal client for a server speaking the Redis protocol.
+ * Compatible with Bun's RedisClient; other clients can be wrapped, e.g.
+ * `{ send: (command, args) => ioredis.call(command, ...args) }`.
+ */
+export interface RedisClient {
+	/**
+	 * Sends a raw command and resolves with its reply.
+	 */
+	send(command: string, args: string[]): Promise<unknown>;
+}
+
+/**
+ * Configuration options for the Redis store.
+ */
+export interface RedisStoreOptions {
+	/**
+	 * Client used to send commands to the server.
+	 */
+	client: RedisClient;
+	/**
+	 * Prefix added to every key stored in Redis.
+	 * @default "rate-limiter:"
+	 */
+	prefix?: string;
+}
+
 /**
  * An internal structure representing a tracked request entry.
  * The specific fields used depend on the selected algorithm.
@@ -97,6 +736,15 @@ export interface Entry {
 	 * Number of requests made in the current window (used for fixed-window algorithm).
 	 */
 	count?: number;
+	/**
+	 * Number of requests made in the previous window (used for sliding-window-counter algorithm).
+	 */
+	previousCount?: number;
+	/**
+	 * Start of the window the count belongs to (used for sliding-window-counter algorithm).
+	 * Windows are aligned to multiples of the window duration since epoch.
+	 */
+	windowStart?: number;
 	/**
 	 * Map of request buckets for sliding-window algorithm.
 	 * Keys are timestamps rounded to precision, values are request counts in that bucket.
@@ -111,11 +759,67 @@ export interface Entry {
 	 * Milliseconds since epoch.
 	 */
 	lastRefill?: number;
+	/**
+	 * Current fill level of the bucket (used for leaky-bucket algorithm).
+	 * Each request adds 1, and the level drains continuously at the leak rate.
+	 */
+	level?: number;
+	/**
+	 * Last time the bucket level was drained (used for leaky-bucket algorithm).
+	 * Milliseconds since epoch.
+	 */
+	lastLeak?: number;
+	/**
+	 * Theoretical arrival time of the next request (used for GCRA algorithm).
+	 * Milliseconds since epoch. Advances by window / max with every request.
+	 */
+	tat?: number;
 	/**
 	 * Timestamp (in milliseconds since epoch) when the current window resets.
-	 * For sliding-window, this represents when the oldest request will expire.
+	 * For sliding-window, this represents when the newest request will expire, leaving the window empty.
+	 * For leaky-bucket, this represents when the bucket will be empty.
+	 * For GCRA, this represents when the full limit is available again.
+	 * For sliding-window-counter, this represents when the current count stops being weighted in.
 	 */
 	resetTime: number;
+	/**
+	 * Tier the identifier resolved to. Only set on entries returned by getEntry.
+	 */
+	tier?: string;
+	/**
+	 * Entries of the individual limits when several are configured, null for those without one.
+	 * Only set on entries returned by getEntry, whose resetTime is then the latest of them.
+	 */
+	limits?: (Entry | null)[];
+}
+
+/**
+ * An entry in a JSON-safe form, with the sliding window buckets as [timestamp, count] pairs.
+ */
+export type SnapshotEntry = Omit<Entry, "buckets" | "tier" | "limits"> & {
+	/**
+	 * Request buckets of the sliding window as [timestamp, count] pairs.
+	 */
+	buckets?: [number, number][];
+};
+
+/**
+ * State of a rate limiter exported for restoring it later, e.g. after a restart.
+ * It survives JSON.stringify and JSON.parse unchanged.
+ */
+export interface RateLimiterSnapshot {
+	/**
+	 * Format version of the snapshot.
+	 */
+	version: number;
+	/**
+	 * Time the snapshot was taken, in milliseconds since epoch.
+	 */
+	createdAt: number;
+	/**
+	 * Entries that hadn't expired when the snapshot was taken, by their store key.
+	 */
+	entries: [StoreKey, SnapshotEntry][];
 }
 
 /**
@@ -127,6 +831,12 @@ export enum Algorithm {
 	 * Resets completely at the end of each window.
 	 */
 	FIXED_WINDOW = "FIXED_WINDOW",
+	/**
+	 * Approximates a sliding window from the current and previous fixed window counts,
+	 * weighting the previous one by how much of it still overlaps the rolling window.
+	 * Uses constant memory like fixed window without its bursts at window boundaries.
+	 */
+	SLIDING_WINDOW_COUNTER = "SLIDING_WINDOW_COUNTER",
 	/**
 	 * Tracks exact request timestamps within a rolling window.
 	 * More precise but uses more memory.
@@ -137,4 +847,68 @@ export enum Algorithm {
 	 * Smoothes traffic over time.
 	 */
 	TOKEN_BUCKET = "TOKEN_BUCKET",
+	/**
+	 * Drains requests at a constant rate, rejecting them once the bucket overflows.
+	 * Reports how long each request has to wait to conform to the rate.
+	 */
+	LEAKY_BUCKET = "LEAKY_BUCKET",
+	/**
+	 * Generic cell rate algorithm. Spaces requests window / max apart while allowing
+	 * bursts up to max. Stores a single timestamp per key.
+	 */
+	GCRA = "GCRA",
+}
+
+/**
+ * Ways of handling store failures in the asynchronous API.
+ */
+export enum FailureMode {
+	/**
+	 * Rejects with the store error.
+	 */
+	THROW = "THROW",
+	/**
+	 * Allows the request as if no previous requests were recorded.
+	 * Keeps the service available while the store is down.
+	 */
+	OPEN = "OPEN",
+	/**
+	 * Limits the request.
+	 * Protects the service while the store is down.
+	 */
+	CLOSED = "CLOSED",
+}
+
+/**
+ * Ways of matching rule patterns against endpoints and identifiers.
+ */
+export enum MatchType {
+	/**
+	 * The value has to equal the pattern.
+	 */
+	EXACT = "EXACT",
+	/**
+	 * The value has to start with the pattern.
+	 */
+	PREFIX = "PREFIX",
+	/**
+	 * The pattern is a glob where "*" matches any sequence of characters and "?" a single one.
+	 */
+	GLOB = "GLOB",
+}
+
+/**
+ * Ways of handling new identifiers once the memory store holds maxEntries entries.
+ */
+export enum EvictionPolicy {
+	/**
+	 * Evicts the least recently used entry to make room for the new one.
+	 * Keeps limiting every caller, but a caller evicted early gets a fresh limit.
+	 */
+	EVICT = "EVICT",
+	/**
+	 * Limits requests of new identifiers until expired entries are cleaned up.
+	 * Keeps every tracked limit intact, but rejects new callers while the store is full.
+	 */
+	LIMIT = "LIMIT",
 }
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { Elysia } from "elysia";
+import { RateLimiter } from "../src/index";
+import { rateLimit, headerIdentifier, type ElysiaRateLimitOptions } from "../src/adapters/elysia";
+
+function createApp(
+	options: Omit<ElysiaRateLimitOptions, "limiter" | "identifier"> = {},
+	limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false })
+) {
+	return new Elysia()
+		.use(rateLimit({ limiter, identifier: headerIdentifier("x-api-key"), ...options }))
+		.get("/users/:id", ({ rateLimit }) => ({ remaining: rateLimit?.remaining }));
+}
+
+function request(app: ReturnType<typeof createApp>, path: string, key = "key1") {
+	return app.handle(new Request(`http://localhost${path}`, { headers: { "x-api-key": key } }));
+}
+
+describe("Elysia Plugin", () => {
+	test("should allow requests within the limit and set headers", async () => {
+		const response = await request(createApp(), "/users/1");
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("X-RateLimit-Limit")).toBe("2");
+		expect(response.headers.get("X-RateLimit-Remaining")).toBe("1");
+		expect(response.headers.has("Retry-After")).toBeFalse();
+		expect(await response.json()).toEqual({ remaining: 1 });
+	});
+
+	test("should respond with 429 once limited", async () => {
+		const app = createApp();
+
+		await request(app, "/users/1");
+		await request(app, "/users/1");
+		const response = await request(app, "/users/1");
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get("Retry-After")).toBe("1");
+		expect(await response.json()).toEqual({ error: "Too many requests", retryAfter: "1 seconds" });
+		expect((await request(app, "/users/1", "key2")).status).toBe(200);
+	});
+
+	test("should share the limit of a route when using route patterns", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = createApp({ endpoint: "route" }, limiter);
+
+		await request(app, "/users/1");
+		await request(app, "/users/2");
+
+		expect((await request(app, "/users/3")).status).toBe(429);
+		expect(limiter.getEntry("/users/:id", "key1")).toMatchObject({ count: 3 });
+	});
+
+	test("should skip requests matching the skip predicate", async () => {
+		const app = createApp({ skip: ({ request }) => request.headers.get("x-api-key") === "internal" });
+
+		for (let i = 0; i < 5; i++) {
+			const response = await request(app, "/users/1", "internal");
+			expect(response.status).toBe(200);
+			expect(response.headers.has("X-RateLimit-Limit")).toBeFalse();
+		}
+	});
+
+	test("should use the custom limited response", async () => {
+		const app = createApp({
+			headers: false,
+			onLimited: (context, result) => new Response(`Slow down, limit is ${result.limit}`, { status: 503 }),
+		});
+
+		await request(app, "/users/1");
+		await request(app, "/users/1");
+		const response = await request(app, "/users/1");
+
+		expect(response.status).toBe(503);
+		expect(await response.text()).toBe("Slow down, limit is 2");
+		expect(response.headers.has("X-RateLimit-Limit")).toBeFalse();
+	});
+});
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import express from "express";
+import { inject } from "light-my-request";
+import { RateLimiter } from "../src/index";
+import { rateLimit, headerIdentifier, localsIdentifier, ipIdentifier, type ExpressRateLimitOptions } from "../src/adapters/express";
+
+function createApp(
+	options: Omit<ExpressRateLimitOptions, "limiter" | "identifier"> = {},
+	limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false })
+) {
+	const app = express();
+
+	app.use(rateLimit({ limiter, identifier: headerIdentifier("x-api-key"), ...options }));
+	app.get("/users/:id", (req, res) => {
+		res.json({ remaining: res.locals.rateLimit?.remaining });
+	});
+
+	return app;
+}
+
+function request(app: express.Express, url: string, key = "key1") {
+	return inject(app, { url, headers: { "x-api-key": key } });
+}
+
+describe("Express Middleware", () => {
+	test("should allow requests within the limit and set headers", async () => {
+		const response = await request(createApp(), "/users/1");
+
+		expect(response.statusCode).toBe(200);
+		expect(response.headers["x-ratelimit-limit"]).toBe("2");
+		expect(response.headers["x-ratelimit-remaining"]).toBe("1");
+		expect(response.headers["retry-after"]).toBeUndefined();
+		expect(JSON.parse(response.payload)).toEqual({ remaining: 1 });
+	});
+
+	test("should respond with 429 once limited", async () => {
+		const app = createApp();
+
+		await request(app, "/users/1");
+		await request(app, "/users/1");
+		const response = await request(app, "/users/1");
+
+		expect(response.statusCode).toBe(429);
+		expect(response.headers["retry-after"]).toBe("1");
+		expect(JSON.parse(response.payload)).toEqual({ error: "Too many requests", retryAfter: "1 seconds" });
+		expect((await request(app, "/users/1", "key2")).statusCode).toBe(200);
+	});
+
+	test("should share the limit of a route when using route patterns", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = express();
+
+		app.get("/users/:id", rateLimit({ limiter, identifier: headerIdentifier("x-api-key"), endpoint: "route" }), (req, res) => {
+			res.send("OK");
+		});
+
+		await request(app, "/users/1");
+		await request(app, "/users/2");
+
+		expect((await request(app, "/users/3")).statusCode).toBe(429);
+		expect(limiter.getEntry("/users/:id", "key1")).toMatchObject({ count: 3 });
+	});
+
+	test("should skip requests matching the skip predicate", async () => {
+		const app = createApp({ skip: (req) => req.get("x-api-key") === "internal" });
+
+		for (let i = 0; i < 5; i++) {
+			const response = await request(app, "/users/1", "internal");
+			expect(response.statusCode).toBe(200);
+			expect(response.headers["x-ratelimit-limit"]).toBeUndefined();
+		}
+	});
+
+	test("should use the custom limited response", async () => {
+		const app = createApp({
+			headers: false,
+			onLimited: (req, res, result) => {
+				res.status(503).send(`Slow down, limit is ${result.limit}`);
+			},
+		});
+
+		await request(app, "/users/1");
+		await request(app, "/users/1");
+		const response = await request(app, "/users/1");
+
+		expect(response.statusCode).toBe(503);
+		expect(response.payload).toBe("Slow down, limit is 2");
+		expect(response.headers["x-ratelimit-limit"]).toBeUndefined();
+	});
+
+	test("should pass errors to the error handler", async () => {
+		const app = createApp({
+			skip: () => {
+				throw new Error("Store unavailable");
+			},
+		});
+		app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+			res.status(500).send(error.message);
+		});
+
+		const response = await request(app, "/users/1");
+		expect(response.statusCode).toBe(500);
+		expect(response.payload).toBe("Store unavailable");
+	});
+
+	describe("Identifiers", () => {
+		test("should identify callers by res.locals", async () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+			const app = express();
+
+			app.use((req, res, next) => {
+				res.locals.userId = 42;
+				next();
+			});
+			app.use(rateLimit({ limiter, identifier: localsIdentifier("userId") }));
+			app.get("/", (req, res) => {
+				res.send("OK");
+			});
+
+			await inject(app, { url: "/" });
+			expect(limiter.getEntry("/", "42")).toMatchObject({ count: 1 });
+		});
+
+		test("should identify callers by their IP address", async () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+			const app = express();
+
+			app.use(rateLimit({ limiter, identifier: ipIdentifier() }));
+			app.get("/", (req, res) => {
+				res.send("OK");
+			});
+
+			await inject(app, { url: "/", remoteAddress: "192.168.1.1" });
+			expect(limiter.getEntry("/", "192.168.1.1")).toMatchObject({ count: 1 });
+		});
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import Fastify from "fastify";
+import { RateLimiter } from "../src/index";
+import { rateLimit, headerIdentifier, ipIdentifier, type FastifyRateLimitOptions } from "../src/adapters/fastify";
+
+function createApp(
+	options: Omit<FastifyRateLimitOptions, "limiter" | "identifier"> = {},
+	limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false })
+) {
+	const app = Fastify();
+
+	app.addHook("onRequest", rateLimit({ limiter, identifier: headerIdentifier("x-api-key"), ...options }));
+	app.get("/users/:id", async (request) => ({ remaining: request.rateLimit?.remaining }));
+
+	return app;
+}
+
+function request(app: ReturnType<typeof Fastify>, url: string, key = "key1") {
+	return app.inject({ url, headers: { "x-api-key": key } });
+}
+
+describe("Fastify Hook", () => {
+	test("should allow requests within the limit and set headers", async () => {
+		const response = await request(createApp(), "/users/1");
+
+		expect(response.statusCode).toBe(200);
+		expect(response.headers["x-ratelimit-limit"]).toBe("2");
+		expect(response.headers["x-ratelimit-remaining"]).toBe("1");
+		expect(response.headers["retry-after"]).toBeUndefined();
+		expect(response.json()).toEqual({ remaining: 1 });
+	});
+
+	test("should respond with 429 once limited", async () => {
+		const app = createApp();
+
+		await request(app, "/users/1");
+		await request(app, "/users/1");
+		const response = await request(app, "/users/1");
+
+		expect(response.statusCode).toBe(429);
+		expect(response.headers["retry-after"]).toBe("1");
+		expect(response.json()).toEqual({ error: "Too many requests", retryAfter: "1 seconds" });
+		expect((await request(app, "/users/1", "key2")).statusCode).toBe(200);
+	});
+
+	test("should limit paths separately by default", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = createApp({}, limiter);
+
+		await request(app, "/users/1?page=1");
+		expect(limiter.getEntry("/users/1", "key1")).toMatchObject({ count: 1 });
+	});
+
+	test("should share the limit of a route when using route patterns", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = createApp({ endpoint: "route" }, limiter);
+
+		await request(app, "/users/1");
+		await request(app, "/users/2");
+
+		expect((await request(app, "/users/3")).statusCode).toBe(429);
+		expect(limiter.getEntry("/users/:id", "key1")).toMatchObject({ count: 3 });
+	});
+
+	test("should skip requests matching the skip predicate", async () => {
+		const app = createApp({ skip: (request) => request.headers["x-api-key"] === "internal" });
+
+		for (let i = 0; i < 5; i++) {
+			const response = await request(app, "/users/1", "internal");
+			expect(response.statusCode).toBe(200);
+			expect(response.headers["x-ratelimit-limit"]).toBeUndefined();
+		}
+	});
+
+	test("should use the custom limited response", async () => {
+		const app = createApp({
+			headers: false,
+			onLimited: (request, reply, result) => reply.code(503).send(`Slow down, limit is ${result.limit}`),
+		});
+
+		await request(app, "/users/1");
+		await request(app, "/users/1");
+		const response = await request(app, "/users/1");
+
+		expect(response.statusCode).toBe(503);
+		expect(response.payload).toBe("Slow down, limit is 2");
+		expect(response.headers["x-ratelimit-limit"]).toBeUndefined();
+	});
+
+	test("should identify callers by their IP address", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = Fastify();
+
+		app.addHook("onRequest", rateLimit({ limiter, identifier: ipIdentifier() }));
+		app.get("/", async () => "OK");
+
+		await app.inject({ url: "/", remoteAddress: "192.168.1.1" });
+		expect(limiter.getEntry("/", "192.168.1.1")).toMatchObject({ count: 1 });
+	});
+});
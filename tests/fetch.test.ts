@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { RateLimiter } from "../src/index";
+import { rateLimit, headerIdentifier, ipIdentifier, type FetchRateLimitOptions, type RequestIPServer } from "../src/adapters/fetch";
+
+function createHandler(
+	options: Omit<FetchRateLimitOptions, "limiter" | "identifier"> = {},
+	limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false })
+) {
+	return rateLimit({ limiter, identifier: headerIdentifier("x-api-key"), ...options })(() => Response.json({ ok: true }));
+}
+
+function request(path: string, key = "key1") {
+	return new Request(`http://localhost${path}`, { headers: { "x-api-key": key } });
+}
+
+describe("Fetch Handler", () => {
+	test("should allow requests within the limit and set headers", async () => {
+		const response = await createHandler()(request("/users/1"));
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("X-RateLimit-Limit")).toBe("2");
+		expect(response.headers.get("X-RateLimit-Remaining")).toBe("1");
+		expect(response.headers.has("Retry-After")).toBeFalse();
+		expect(await response.json()).toEqual({ ok: true });
+	});
+
+	test("should respond with 429 once limited", async () => {
+		const handler = createHandler();
+
+		await handler(request("/users/1"));
+		await handler(request("/users/1"));
+		const response = await handler(request("/users/1"));
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get("Retry-After")).toBe("1");
+		expect(await response.json()).toEqual({ error: "Too many requests", retryAfter: "1 seconds" });
+		expect((await handler(request("/users/1", "key2"))).status).toBe(200);
+	});
+
+	test("should limit by pathname by default", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const handler = createHandler({}, limiter);
+
+		await handler(request("/users/1?page=1"));
+		expect(limiter.getEntry("/users/1", "key1")).toMatchObject({ count: 1 });
+	});
+
+	test("should skip requests matching the skip predicate", async () => {
+		const handler = createHandler({ skip: (request) => request.headers.get("x-api-key") === "internal" });
+
+		for (let i = 0; i < 5; i++) {
+			const response = await handler(request("/users/1", "internal"));
+			expect(response.status).toBe(200);
+			expect(response.headers.has("X-RateLimit-Limit")).toBeFalse();
+		}
+	});
+
+	test("should use the custom limited response", async () => {
+		const handler = createHandler({
+			onLimited: (request, result) => new Response(`Slow down, limit is ${result.limit}`, { status: 503 }),
+		});
+
+		await handler(request("/users/1"));
+		await handler(request("/users/1"));
+		const response = await handler(request("/users/1"));
+
+		expect(response.status).toBe(503);
+		expect(await response.text()).toBe("Slow down, limit is 2");
+		expect(response.headers.get("Retry-After")).toBe("1");
+	});
+
+	test("should add headers to responses with immutable headers", async () => {
+		const handler = rateLimit({ limiter: new RateLimiter({ enableCleanup: false }), identifier: () => "key1" })(() => Response.redirect("http://localhost/"));
+
+		const response = await handler(request("/"));
+		expect(response.status).toBe(302);
+		expect(response.headers.get("X-RateLimit-Limit")).toBe("60");
+	});
+
+	test("should pass the runtime arguments to the callbacks", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const server: RequestIPServer = { requestIP: () => ({ address: "192.168.1.1" }) };
+		const handler = rateLimit<[RequestIPServer]>({ limiter, identifier: ipIdentifier() })(() => new Response("OK"));
+
+		await handler(request("/"), server);
+		expect(limiter.getEntry("/", "192.168.1.1")).toMatchObject({ count: 1 });
+	});
+});
@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { RateLimiter, Algorithm } from "../src/index";
+import { rateLimit, headerIdentifier, contextIdentifier, ipIdentifier, type RateLimitVariables } from "../src/adapters/hono";
+
+function createApp(
+	options: Omit<Parameters<typeof rateLimit>[0], "limiter" | "identifier"> = {},
+	limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false })
+) {
+	const app = new Hono<{ Variables: RateLimitVariables }>();
+
+	app.use("*", rateLimit({ limiter, identifier: headerIdentifier("x-api-key"), ...options }));
+	app.get("/users/:id", (c) => c.json({ remaining: c.get("rateLimit")?.remaining }));
+
+	return app;
+}
+
+describe("Hono Middleware", () => {
+	test("should allow requests within the limit and set headers", async () => {
+		const app = createApp();
+
+		const response = await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		expect(response.status).toBe(200);
+		expect(response.headers.get("X-RateLimit-Limit")).toBe("2");
+		expect(response.headers.get("X-RateLimit-Remaining")).toBe("1");
+		expect(Number(response.headers.get("X-RateLimit-Reset"))).toBeGreaterThanOrEqual(Math.floor(Date.now() / 1000));
+		expect(response.headers.has("Retry-After")).toBeFalse();
+	});
+
+	test("should expose the result to downstream handlers", async () => {
+		const app = createApp();
+
+		const response = await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		expect(await response.json()).toEqual({ remaining: 1 });
+	});
+
+	test("should respond with 429 once limited", async () => {
+		const app = createApp();
+
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		const response = await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get("Retry-After")).toBe("1");
+		expect(await response.json()).toEqual({ error: "Too many requests", retryAfter: "1 seconds" });
+
+		// Other identifiers aren't affected
+		expect((await app.request("/users/1", { headers: { "x-api-key": "key2" } })).status).toBe(200);
+	});
+
+	test("should tell denied requests not to retry", async () => {
+		const app = createApp({}, new RateLimiter({ denylist: ["banned"], enableCleanup: false }));
+
+		const response = await app.request("/users/1", { headers: { "x-api-key": "banned" } });
+		expect(response.status).toBe(429);
+		expect(response.headers.has("Retry-After")).toBeFalse();
+		expect(await response.json()).toEqual({ error: "Access denied" });
+	});
+
+	test("should limit paths separately by default", async () => {
+		const app = createApp();
+
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+
+		expect((await app.request("/users/2", { headers: { "x-api-key": "key1" } })).status).toBe(200);
+	});
+
+	test("should share the limit of a route when using route patterns", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = createApp({ endpoint: "route" }, limiter);
+
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		await app.request("/users/2", { headers: { "x-api-key": "key1" } });
+
+		expect((await app.request("/users/3", { headers: { "x-api-key": "key1" } })).status).toBe(429);
+		expect(limiter.getEntry("/users/:id", "key1")).toMatchObject({ count: 3 });
+	});
+
+	test("should support custom endpoints", async () => {
+		const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+		const app = createApp({ endpoint: (c) => c.req.method }, limiter);
+
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		expect(limiter.getEntry("GET", "key1")).toMatchObject({ count: 1 });
+	});
+
+	test("should skip requests matching the skip predicate", async () => {
+		const app = createApp({ skip: (c) => c.req.header("x-api-key") === "internal" });
+
+		for (let i = 0; i < 5; i++) {
+			const response = await app.request("/users/1", { headers: { "x-api-key": "internal" } });
+			expect(response.status).toBe(200);
+			expect(response.headers.has("X-RateLimit-Limit")).toBeFalse();
+		}
+	});
+
+	test("should use the custom limited response", async () => {
+		const app = createApp({
+			headers: false,
+			onLimited: (c, result) => c.text(`Slow down, limit is ${result.limit}`, 503),
+		});
+
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		const response = await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+
+		expect(response.status).toBe(503);
+		expect(await response.text()).toBe("Slow down, limit is 2");
+		expect(response.headers.has("X-RateLimit-Limit")).toBeFalse();
+		expect(response.headers.has("Retry-After")).toBeFalse();
+	});
+
+	test("should set the IETF RateLimit headers when configured", async () => {
+		const app = createApp({ headers: { legacy: false } });
+
+		const response = await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		expect(response.headers.get("RateLimit-Policy")).toBe('"default";q=2;w=1');
+		expect(response.headers.get("RateLimit")).toBe('"default";r=1;t=1');
+		expect(response.headers.has("X-RateLimit-Limit")).toBeFalse();
+	});
+
+	test("should use the exact wait reported by the algorithm", async () => {
+		const limiter = new RateLimiter({ algorithm: Algorithm.GCRA, max: 2, window: 10_000, enableCleanup: false });
+		const app = createApp({}, limiter);
+
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+		const response = await app.request("/users/1", { headers: { "x-api-key": "key1" } });
+
+		expect(response.headers.get("Retry-After")).toBe("5");
+	});
+
+	describe("Identifiers", () => {
+		test("should identify callers by context variables", async () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+			const app = new Hono<{ Variables: { userId: number } }>();
+
+			app.use("*", async (c, next) => {
+				c.set("userId", 42);
+				await next();
+			});
+			app.use("*", rateLimit({ limiter, identifier: contextIdentifier("userId") }));
+			app.get("/", (c) => c.text("OK"));
+
+			await app.request("/");
+			expect(limiter.getEntry("/", "42")).toMatchObject({ count: 1 });
+		});
+
+		test("should identify callers by their remote address", async () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+			const app = new Hono();
+
+			app.use("*", rateLimit({ limiter, identifier: ipIdentifier(() => ({ remote: { address: "192.168.1.1", addressType: "IPv4" } })) }));
+			app.get("/", (c) => c.text("OK"));
+
+			await app.request("/");
+			expect(limiter.getEntry("/", "192.168.1.1")).toMatchObject({ count: 1 });
+		});
+	});
+});
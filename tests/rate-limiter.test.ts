@@ -1,7 +1,67 @@
 import { describe, expect, test, beforeEach, afterEach } from "bun:test";
-import { RateLimiter, Algorithm } from "../src/index";
+import {
+	RateLimiter,
+	Algorithm,
+	EvictionPolicy,
+	FailureMode,
+	MatchType,
+	MemoryStore,
+	ManualClock,
+	type Entry,
+	type MetricsOptions,
+	type RateLimitConfig,
+	type RateLimitStore,
+	type StoreKey,
+} from "../src/index";
+
+/**
+ * Wraps a memory store so that every operation resolves asynchronously.
+ */
+function createAsyncStore(store = new MemoryStore()): RateLimitStore {
+	return {
+		get: async (key) => store.get(key),
+		set: async (key, entry) => store.set(key, entry),
+		delete: async (key) => store.delete(key),
+		increment: async (key, amount, resetTime, now) => store.increment(key, amount, resetTime, now),
+		entries: () => store.entries(),
+		size: async () => store.size(),
+		clear: async () => store.clear(),
+		tracksSize: true,
+	};
+}
+
+/**
+ * Parses a Prometheus or OpenMetrics text exposition into its metric types and sample values.
+ */
+function parseMetrics(text: string): { types: Record<string, string>; samples: Record<string, number> } {
+	const types: Record<string, string> = {};
+	const samples: Record<string, number> = {};
+
+	for (const line of text.split("\n")) {
+		const type = line.match(/^# TYPE (\S+) (\S+)$/);
+		if (type) {
+			types[type[1]!] = type[2]!;
+		} else if (line && !line.startsWith("#")) {
+			const separator = line.lastIndexOf(" ");
+			samples[line.slice(0, separator)] = Number(line.slice(separator + 1));
+		}
+	}
+
+	return { types, samples };
+}
+
+/**
+ * Start time of the manual clock, aligned to whole minutes.
+ */
+const START = 1_800_000_000_000;
 
 describe("RateLimiter", () => {
+	let clock: ManualClock;
+
+	beforeEach(() => {
+		clock = new ManualClock(START);
+	});
+
 	describe("get", () => {
 		let limiter: RateLimiter;
 
@@ -11,6 +71,8 @@ describe("RateLimiter", () => {
 				window: 1000,
 				max: 5,
 				precision: 100,
+				clock,
+				scheduler: clock,
 			});
 		});
 
@@ -44,7 +106,7 @@ describe("RateLimiter", () => {
 			expect(firstCheck.current).toBe(1);
 
 			// Wait 600ms (within the 1000ms window)
-			Bun.sleepSync(600);
+			clock.advance(600);
 
 			// Should still see the first request counting against the limit
 			const status = limiter.get("/api", "user2");
@@ -52,13 +114,35 @@ describe("RateLimiter", () => {
 			expect(status.current).toBe(1);
 
 			// Wait another 500ms (total 1100ms - past window expiration)
-			Bun.sleepSync(500);
+			clock.advance(500);
 
 			// Window should have expired, count reset
 			const expiredStatus = limiter.get("/api", "user2");
 			expect(expiredStatus.remaining).toBe(5);
 			expect(expiredStatus.current).toBe(0);
 		});
+
+		test("should refill token buckets", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.TOKEN_BUCKET, max: 2, refillRate: 1, refillInterval: 1000, clock });
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			expect(limiter.check("/api", "user1")).toMatchObject({ limited: true });
+
+			clock.advance(1000);
+			expect(limiter.get("/api", "user1")).toMatchObject({ limited: false, remaining: 1, retryAfter: 0, reset: START + 2000 });
+		});
+
+		test("should start over once a fixed window expired", () => {
+			const limiter = new RateLimiter({ max: 1, window: 1000, clock });
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			expect(limiter.get("/api", "user1")).toMatchObject({ limited: true, retryAfter: 1000 });
+
+			clock.advance(1000);
+			expect(limiter.get("/api", "user1")).toMatchObject({ limited: false, current: 0, remaining: 1, retryAfter: 0, reset: START + 2000 });
+		});
 	});
 
 	describe("getEntry", () => {
@@ -111,6 +195,8 @@ describe("RateLimiter", () => {
 				window: 1000,
 				max: 2,
 				cleanupInterval: 100,
+				clock,
+				scheduler: clock,
 			});
 		});
 
@@ -128,6 +214,8 @@ describe("RateLimiter", () => {
 				limit: 2,
 				reset: expect.any(Number),
 				window: 1000,
+				retryAfter: 0,
+				timestamp: START,
 			});
 
 			// Second request (allowed)
@@ -156,7 +244,7 @@ describe("RateLimiter", () => {
 			expect(limiter.check("/api", "user2").limited).toBeTrue();
 
 			// Wait for window to expire
-			Bun.sleepSync(1100);
+			clock.advance(1100);
 
 			// Should allow new requests
 			const result = limiter.check("/api", "user2");
@@ -174,6 +262,16 @@ describe("RateLimiter", () => {
 				expect(result.limited).toBe(i > 2);
 			}
 		});
+
+		test("should report the wait until the window resets", () => {
+			expect(limiter.check("/api", "user4").retryAfter).toBe(0);
+
+			// The last allowed request already has to wait for the next one
+			const result = limiter.check("/api", "user4");
+			expect(result.limited).toBeFalse();
+			expect(result.retryAfter).toBeGreaterThan(900);
+			expect(result.retryAfter).toBeLessThanOrEqual(result.reset - clock.now() + 1);
+		});
 	});
 
 	describe("Sliding Window Algorithm", () => {
@@ -185,6 +283,8 @@ describe("RateLimiter", () => {
 				window: 1000, // 1 second window
 				max: 5, // 5 requests max
 				precision: 100, // 100ms precision
+				clock,
+				scheduler: clock,
 			});
 		});
 
@@ -225,7 +325,7 @@ describe("RateLimiter", () => {
 			limiter.check("/api", "user3");
 			limiter.check("/api", "user3");
 
-			Bun.sleepSync(1000);
+			clock.advance(1000);
 
 			// Make 4 more requests (2+4=6 would exceed limit if not for expiration)
 			for (let i = 0; i < 4; i++) {
@@ -254,7 +354,7 @@ describe("RateLimiter", () => {
 			});
 
 			// Wait for window to expire
-			Bun.sleepSync(1100);
+			clock.advance(1100);
 
 			const newResult = limiter.check("/api", "user4");
 			expect(newResult).toMatchObject({
@@ -263,6 +363,110 @@ describe("RateLimiter", () => {
 				remaining: 4,
 			});
 		});
+
+		test("should report when enough old buckets have left the window", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, window: 1000, max: 5, store, enableCleanup: false, clock });
+			clock.advance(50);
+			const roundedNow = START;
+			store.set("/api:user5", {
+				count: 5,
+				buckets: new Map([
+					[roundedNow - 800, 1],
+					[roundedNow - 500, 4],
+				]),
+				resetTime: roundedNow + 500,
+			});
+
+			// The oldest bucket leaving the window doesn't free enough requests, and the window empties with the newest one
+			const result = limiter.check("/api", "user5");
+			expect(result).toMatchObject({ limited: true, reset: roundedNow + 1000, retryAfter: 450 });
+		});
+	});
+
+	describe("Sliding Window Counter Algorithm", () => {
+		let limiter: RateLimiter;
+		let store: MemoryStore;
+
+		beforeEach(() => {
+			store = new MemoryStore();
+			limiter = new RateLimiter({
+				algorithm: Algorithm.SLIDING_WINDOW_COUNTER,
+				window: 60_000,
+				max: 5,
+				store,
+				clock,
+				scheduler: clock,
+			});
+		});
+
+		afterEach(() => {
+			limiter.clear();
+		});
+
+		test("should count requests in the current window", () => {
+			for (let i = 1; i <= 5; i++) {
+				expect(limiter.check("/api", "user1")).toMatchObject({
+					limited: false,
+					current: i,
+					remaining: 5 - i,
+				});
+			}
+
+			expect(limiter.check("/api", "user1")).toMatchObject({
+				limited: true,
+				current: 6,
+				remaining: 0,
+			});
+		});
+
+		test("should weight the previous window by its overlap", () => {
+			const windowStart = START;
+			store.set("/api:user2", {
+				count: 10,
+				previousCount: 0,
+				windowStart: windowStart - 60_000,
+				resetTime: windowStart + 60_000,
+			});
+
+			// A quarter into the window, the previous one still overlaps by 75%
+			clock.advance(15_000);
+			expect(limiter.check("/api", "user2")).toMatchObject({ limited: true, current: 9 });
+			expect(limiter.getEntry("/api", "user2")).toMatchObject({ count: 1, previousCount: 10, windowStart });
+		});
+
+		test("should forget windows that are not adjacent", () => {
+			const windowStart = START;
+			store.set("/api:user3", {
+				count: 10,
+				previousCount: 10,
+				windowStart: windowStart - 120_000,
+				resetTime: windowStart,
+			});
+
+			expect(limiter.get("/api", "user3")).toMatchObject({ limited: false, current: 0, remaining: 5 });
+			expect(limiter.check("/api", "user3")).toMatchObject({ limited: false, current: 1, remaining: 4 });
+		});
+
+		test("should keep entries until the current count stops being weighted in", () => {
+			clock.advance(10_000);
+			const result = limiter.check("/api", "user4");
+
+			expect(result.reset).toBe(START + 120_000);
+		});
+
+		test("should report when the weighted count allows the next request", () => {
+			const windowStart = START;
+			store.set("/api:user5", { count: 2, previousCount: 10, windowStart, resetTime: windowStart + 120_000 });
+			store.set("/api:user6", { count: 5, previousCount: 0, windowStart, resetTime: windowStart + 120_000 });
+			clock.advance(12_000);
+
+			// 10 * overlap + 2 + 1 <= 5 once the overlap drops to 0.2
+			expect(limiter.get("/api", "user5").retryAfter).toBeCloseTo(36_000);
+
+			// 5 * overlap + 1 <= 5 once 20% of the next window has passed
+			expect(limiter.get("/api", "user6").retryAfter).toBeCloseTo(60_000);
+		});
 	});
 
 	describe("Token Bucket Algorithm", () => {
@@ -275,6 +479,8 @@ describe("RateLimiter", () => {
 				refillRate: 1,
 				refillInterval: 500,
 				window: 1000,
+				clock,
+				scheduler: clock,
 			});
 		});
 
@@ -303,7 +509,7 @@ describe("RateLimiter", () => {
 			expect(limiter.check("/api", "user2").limited).toBeTrue();
 
 			// Wait for refill (600ms > 500ms interval)
-			Bun.sleepSync(600);
+			clock.advance(600);
 
 			// Should have 1 token available
 			const result = limiter.check("/api", "user2");
@@ -313,6 +519,1817 @@ describe("RateLimiter", () => {
 				remaining: 0,
 			});
 		});
+
+		test("should report the next refill and when the bucket is full again", () => {
+			const now = clock.now();
+			expect(limiter.check("/api", "user3")).toMatchObject({ retryAfter: 0 });
+
+			const result = limiter.check("/api", "user3");
+			expect(result.retryAfter).toBeGreaterThan(400);
+			expect(result.retryAfter).toBeLessThanOrEqual(500);
+			expect(result.reset).toBeGreaterThanOrEqual(now + 1000);
+			expect(result.reset).toBeLessThan(now + 1100);
+
+			// The first refill clears the debt of rejected requests
+			const limited = limiter.check("/api", "user3");
+			expect(limited.retryAfter).toBeLessThanOrEqual(500);
+			expect(limited.reset).toBe(result.reset);
+		});
+
+		test("should reset immediately for new identifiers", () => {
+			const now = clock.now();
+			const result = limiter.get("/api", "user4");
+
+			expect(result).toMatchObject({ remaining: 2, retryAfter: 0 });
+			expect(result.reset).toBeGreaterThanOrEqual(now);
+			expect(result.reset).toBeLessThan(now + 100);
+		});
+	});
+
+	describe("Leaky Bucket Algorithm", () => {
+		let limiter: RateLimiter;
+
+		beforeEach(() => {
+			limiter = new RateLimiter({
+				algorithm: Algorithm.LEAKY_BUCKET,
+				max: 2,
+				leakRate: 1,
+				leakInterval: 500,
+				clock,
+				scheduler: clock,
+			});
+		});
+
+		test("should limit once the bucket overflows", () => {
+			const result1 = limiter.check("/api", "user1");
+			expect(result1).toMatchObject({
+				limited: false,
+				current: 1,
+				remaining: 1,
+				limit: 2,
+			});
+
+			expect(limiter.check("/api", "user1")).toMatchObject({
+				limited: false,
+				current: 2,
+				remaining: 0,
+			});
+
+			expect(limiter.check("/api", "user1")).toMatchObject({
+				limited: true,
+				current: 3,
+				remaining: 0,
+			});
+		});
+
+		test("should report how long each request has to wait to conform", () => {
+			expect(limiter.check("/api", "user2").delay).toBe(0);
+			expect(limiter.check("/api", "user2").delay).toBeCloseTo(500, -1);
+			expect(limiter.check("/api", "user2")).not.toHaveProperty("delay");
+		});
+
+		test("should drop overflowing requests without filling the bucket", () => {
+			limiter.check("/api", "user7");
+			limiter.check("/api", "user7");
+			const entry = limiter.getEntry("/api", "user7");
+
+			for (let i = 0; i < 20; i++) {
+				expect(limiter.check("/api", "user7")).toMatchObject({ limited: true, current: 3, retryAfter: 500 });
+			}
+			expect(limiter.getEntry("/api", "user7")).toEqual(entry);
+
+			clock.advance(500);
+			expect(limiter.check("/api", "user7").limited).toBeFalse();
+		});
+
+		test("should drain at a constant rate", () => {
+			limiter.check("/api", "user3");
+			limiter.check("/api", "user3");
+			expect(limiter.check("/api", "user3").limited).toBeTrue();
+
+			// Wait for one request to drain (600ms > 500ms interval)
+			clock.advance(600);
+
+			const status = limiter.get("/api", "user3");
+			expect(status.current).toBe(1);
+
+			expect(limiter.check("/api", "user3")).toMatchObject({
+				limited: false,
+				current: 2,
+				remaining: 0,
+			});
+		});
+
+		test("should reset when the bucket is empty", () => {
+			const now = clock.now();
+			limiter.check("/api", "user4");
+			const result = limiter.check("/api", "user4");
+
+			expect(result.reset).toBe(now + 1000);
+		});
+
+		test("should report when the bucket has room for the next request", () => {
+			expect(limiter.check("/api", "user6").retryAfter).toBe(0);
+			expect(limiter.check("/api", "user6").retryAfter).toBeCloseTo(500, -1);
+
+			// The rejected request was dropped, so the wait doesn't grow
+			expect(limiter.check("/api", "user6").retryAfter).toBeCloseTo(500, -1);
+		});
+
+		test("should return fresh state for new identifiers", () => {
+			expect(limiter.get("/api", "user5")).toMatchObject({
+				limited: false,
+				current: 0,
+				remaining: 2,
+				delay: 0,
+			});
+		});
+	});
+
+	describe("GCRA Algorithm", () => {
+		let limiter: RateLimiter;
+
+		beforeEach(() => {
+			limiter = new RateLimiter({
+				algorithm: Algorithm.GCRA,
+				window: 1000,
+				max: 2,
+				clock,
+				scheduler: clock,
+			});
+		});
+
+		test("should allow bursts up to max and limit afterwards", () => {
+			expect(limiter.check("/api", "user1")).toMatchObject({
+				limited: false,
+				current: 1,
+				remaining: 1,
+				retryAfter: 0,
+			});
+
+			expect(limiter.check("/api", "user1")).toMatchObject({
+				limited: false,
+				current: 2,
+				remaining: 0,
+			});
+
+			const result = limiter.check("/api", "user1");
+			expect(result).toMatchObject({
+				limited: true,
+				current: 3,
+				remaining: 0,
+			});
+			expect(result.retryAfter).toBe(500);
+		});
+
+		test("should free one request per emission interval", () => {
+			limiter.check("/api", "user2");
+			limiter.check("/api", "user2");
+
+			const limited = limiter.get("/api", "user2");
+			expect(limited.remaining).toBe(0);
+			expect(limited.retryAfter).toBeGreaterThan(400);
+			expect(limited.retryAfter).toBeLessThanOrEqual(500);
+
+			// Wait one emission interval (600ms > 1000ms / 2)
+			clock.advance(600);
+
+			expect(limiter.get("/api", "user2")).toMatchObject({
+				current: 1,
+				remaining: 1,
+				retryAfter: 0,
+			});
+			expect(limiter.check("/api", "user2").limited).toBeFalse();
+		});
+
+		test("should reset when the full limit is available again", () => {
+			const now = clock.now();
+			limiter.check("/api", "user3");
+			const result = limiter.check("/api", "user3");
+
+			expect(result.reset).toBe(now + 1000);
+		});
+
+		test("should not move the theoretical arrival time for limited requests", () => {
+			limiter.check("/api", "user6");
+			limiter.check("/api", "user6");
+			const entry = limiter.getEntry("/api", "user6");
+
+			for (let i = 0; i < 20; i++) {
+				expect(limiter.check("/api", "user6")).toMatchObject({ limited: true, current: 3, retryAfter: 500 });
+			}
+			expect(limiter.getEntry("/api", "user6")).toEqual(entry);
+
+			clock.advance(500);
+			expect(limiter.check("/api", "user6").limited).toBeFalse();
+		});
+
+		test("should store a single timestamp per key", () => {
+			for (let i = 0; i < 10; i++) {
+				limiter.check("/api", "user4");
+			}
+
+			const entry = limiter.getEntry("/api", "user4");
+			expect(Object.keys(entry!).sort()).toEqual(["resetTime", "tat"]);
+		});
+
+		test("should return fresh state for new identifiers", () => {
+			expect(limiter.get("/api", "user5")).toMatchObject({
+				limited: false,
+				current: 0,
+				remaining: 2,
+				retryAfter: 0,
+			});
+		});
+	});
+
+	describe("Non-consuming Rejections", () => {
+		const algorithms = [
+			Algorithm.FIXED_WINDOW,
+			Algorithm.SLIDING_WINDOW,
+			Algorithm.SLIDING_WINDOW_COUNTER,
+			Algorithm.TOKEN_BUCKET,
+			Algorithm.LEAKY_BUCKET,
+			Algorithm.GCRA,
+		];
+
+		test("should report the wait of the unchanged state", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.GCRA, max: 2, window: 1000, consumeRejected: false, enableCleanup: false });
+
+			limiter.check("/api", "user0");
+			limiter.check("/api", "user0");
+
+			for (let i = 0; i < 3; i++) {
+				const result = limiter.check("/api", "user0");
+				expect(result.limited).toBeTrue();
+				expect(result.retryAfter).toBeGreaterThan(400);
+				expect(result.retryAfter).toBeLessThanOrEqual(500);
+			}
+		});
+
+		test("should reject requests without changing state", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 2, window: 10_000, consumeRejected: false, enableCleanup: false });
+
+				limiter.check("/api", "user1");
+				limiter.check("/api", "user1");
+				const entry = limiter.getEntry("/api", "user1");
+
+				for (let i = 0; i < 5; i++) {
+					expect(limiter.check("/api", "user1")).toMatchObject({ limited: true, remaining: 0 });
+				}
+				expect(limiter.getEntry("/api", "user1")).toEqual(entry);
+			}
+		});
+
+		test("should not create entries for rejected requests of new identifiers", () => {
+			for (const algorithm of algorithms) {
+				const created: string[] = [];
+				const limiter = new RateLimiter({ algorithm, max: 5, window: 10_000, consumeRejected: false, enableCleanup: false, clock });
+				limiter.on("entryCreated", ({ key }) => created.push(key));
+
+				expect(limiter.check("/api", "user1", { cost: 10 }).limited).toBeTrue();
+				expect(limiter.getSize()).toBe(0);
+				expect(created).toEqual([]);
+			}
+		});
+
+		test("should recover as quickly when retrying as when waiting", () => {
+			const limiter = new RateLimiter({
+				algorithm: Algorithm.TOKEN_BUCKET,
+				max: 2,
+				refillRate: 1,
+				refillInterval: 200,
+				consumeRejected: false,
+				enableCleanup: false,
+				clock,
+			});
+
+			for (const identifier of ["patient", "retrying"]) {
+				limiter.check("/api", identifier);
+				limiter.check("/api", identifier);
+			}
+
+			// Keep retrying until a token is refilled
+			let retries = 0;
+			while (limiter.check("/api", "retrying").limited) {
+				retries++;
+				clock.advance(10);
+			}
+
+			expect(retries).toBeGreaterThan(0);
+			expect(limiter.check("/api", "patient").limited).toBeFalse();
+		});
+
+		test("should keep retrying clients blocked when rejected requests consume", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 2, window: 200, precision: 10, enableCleanup: false, clock });
+
+			for (const identifier of ["patient", "retrying"]) {
+				limiter.check("/api", identifier);
+				limiter.check("/api", identifier);
+			}
+
+			clock.advance(100);
+			for (let i = 0; i < 5; i++) {
+				limiter.check("/api", "retrying");
+			}
+
+			// The first requests left the window, the retries haven't
+			clock.advance(150);
+			expect(limiter.check("/api", "patient").limited).toBeFalse();
+			expect(limiter.check("/api", "retrying").limited).toBeTrue();
+		});
+
+		test("should let checks override the configured mode", () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, consumeRejected: false, enableCleanup: false });
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			expect(limiter.get("/api", "user1").current).toBe(2);
+
+			limiter.check("/api", "user1", { consumeRejected: true });
+			expect(limiter.get("/api", "user1").current).toBe(3);
+		});
+	});
+
+	describe("Request Cost", () => {
+		const algorithms = [
+			Algorithm.FIXED_WINDOW,
+			Algorithm.SLIDING_WINDOW,
+			Algorithm.SLIDING_WINDOW_COUNTER,
+			Algorithm.TOKEN_BUCKET,
+			Algorithm.LEAKY_BUCKET,
+			Algorithm.GCRA,
+		];
+
+		test("should consume the cost of each request", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 10, window: 1000, enableCleanup: false });
+
+				expect(limiter.check("/api", "user1", { cost: 4 })).toMatchObject({ limited: false, current: 4, remaining: 6 });
+				expect(limiter.check("/api", "user1", { cost: 6 })).toMatchObject({ limited: false, current: 10, remaining: 0 });
+				expect(limiter.check("/api", "user1", { cost: 1 })).toMatchObject({ limited: true, remaining: 0 });
+			}
+		});
+
+		test("should reject requests costing more than what remains", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 10, window: 1000, enableCleanup: false });
+
+				limiter.check("/api", "user1", { cost: 8 });
+				expect(limiter.check("/api", "user1", { cost: 3 }).limited).toBeTrue();
+			}
+		});
+
+		test("should not consume anything for rejected requests when consumeRejected is false", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 10, window: 1000, enableCleanup: false });
+
+				limiter.check("/api", "user1", { cost: 8 });
+				expect(limiter.check("/api", "user1", { cost: 5, consumeRejected: false })).toMatchObject({ limited: true, remaining: 0 });
+				expect(limiter.get("/api", "user1")).toMatchObject({ current: 8, remaining: 2 });
+				expect(limiter.check("/api", "user1", { cost: 2, consumeRejected: false })).toMatchObject({ limited: false, current: 10 });
+			}
+		});
+
+		test("should allow free requests", () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, enableCleanup: false });
+
+			limiter.check("/api", "user1", { cost: 2 });
+			expect(limiter.check("/api", "user1", { cost: 0 })).toMatchObject({ limited: false, current: 2, remaining: 0 });
+		});
+
+		test("should only delay by the time the bucket needs to make room for the request", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.LEAKY_BUCKET, max: 10, leakRate: 1, leakInterval: 100, enableCleanup: false });
+
+			limiter.check("/api", "user1", { cost: 2 });
+			const result = limiter.check("/api", "user1", { cost: 3 });
+			expect(result.delay).toBeGreaterThan(150);
+			expect(result.delay).toBeLessThanOrEqual(200);
+		});
+
+		test("should consume the cost through asynchronous stores", async () => {
+			const limiter = new RateLimiter({ max: 5, window: 1000, store: createAsyncStore(), enableCleanup: false });
+
+			expect(await limiter.checkAsync("/api", "user1", { cost: 3 })).toMatchObject({ limited: false, remaining: 2 });
+			expect(await limiter.checkAsync("/api", "user1", { cost: 3, consumeRejected: false })).toMatchObject({ limited: true });
+			expect(await limiter.getAsync("/api", "user1")).toMatchObject({ current: 3, remaining: 2 });
+		});
+
+		test("should throw for invalid costs", () => {
+			const limiter = new RateLimiter({ enableCleanup: false });
+
+			expect(() => limiter.check("/api", "user1", { cost: -1 })).toThrow(RangeError);
+			expect(() => limiter.check("/api", "user1", { cost: NaN })).toThrow("Invalid cost");
+		});
+	});
+
+	describe("Refund", () => {
+		const algorithms = [
+			Algorithm.FIXED_WINDOW,
+			Algorithm.SLIDING_WINDOW,
+			Algorithm.SLIDING_WINDOW_COUNTER,
+			Algorithm.TOKEN_BUCKET,
+			Algorithm.LEAKY_BUCKET,
+			Algorithm.GCRA,
+		];
+
+		test("should not limit requests that are refunded", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 3, window: 10_000, enableCleanup: false });
+
+				for (let i = 0; i < 10; i++) {
+					expect(limiter.check("/api", "user1").limited).toBeFalse();
+					limiter.refund("/api", "user1");
+				}
+				expect(limiter.get("/api", "user1")).toMatchObject({ current: 0, remaining: 3 });
+			}
+		});
+
+		test("should refund the given cost", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 10, window: 10_000, enableCleanup: false });
+
+				limiter.check("/api", "user1", { cost: 6 });
+				expect(limiter.refund("/api", "user1", { cost: 4 })).toMatchObject({ limited: false, current: 2, remaining: 8 });
+			}
+		});
+
+		test("should never refund more than was consumed", () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 5, window: 10_000, enableCleanup: false });
+
+				limiter.check("/api", "user1");
+				expect(limiter.refund("/api", "user1", { cost: 3 })).toMatchObject({ current: 0, remaining: 5 });
+				expect(limiter.check("/api", "user1", { cost: 5 }).limited).toBeFalse();
+				expect(limiter.check("/api", "user1").limited).toBeTrue();
+			}
+		});
+
+		test("should not store entries for unknown identifiers", () => {
+			const limiter = new RateLimiter({ max: 5, enableCleanup: false });
+
+			expect(limiter.refund("/api", "user1")).toMatchObject({ current: 0, remaining: 5 });
+			expect(limiter.getSize()).toBe(0);
+		});
+
+		test("should not refund fixed window requests from a previous window", () => {
+			const limiter = new RateLimiter({ max: 5, window: 200, enableCleanup: false, clock });
+
+			const { timestamp } = limiter.check("/api", "user1");
+			clock.advance(250);
+			limiter.check("/api", "user1");
+
+			expect(limiter.refund("/api", "user1", { timestamp }).current).toBe(1);
+			expect(limiter.refund("/api", "user1").current).toBe(0);
+		});
+
+		test("should refund the sliding window bucket the request was recorded in", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 5, window: 1000, precision: 100, enableCleanup: false, clock });
+
+			const checkedAt = limiter.check("/api", "user1").timestamp;
+			clock.advance(200);
+			limiter.check("/api", "user1");
+
+			expect(checkedAt).toBe(START);
+			const result = limiter.refund("/api", "user1", { timestamp: checkedAt });
+			const entry = limiter.getEntry("/api", "user1");
+
+			expect(result.current).toBe(1);
+			expect(entry!.buckets!.size).toBe(1);
+			expect(result.reset).toBe(Math.max(...entry!.buckets!.keys()) + 1000);
+			expect(result.reset).toBeGreaterThan(Math.floor(checkedAt / 100) * 100 + 1000);
+		});
+
+		test("should refund the newest sliding window bucket without a timestamp", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 5, window: 1000, precision: 100, enableCleanup: false, clock });
+
+			const firstReset = limiter.check("/api", "user1").reset;
+			clock.advance(200);
+			limiter.check("/api", "user1");
+
+			expect(limiter.refund("/api", "user1")).toMatchObject({ current: 1, reset: firstReset });
+		});
+
+		test("should refund sliding window counter requests into the window they were counted in", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW_COUNTER, max: 5, window: 10_000, enableCleanup: false, clock });
+
+			limiter.check("/api", "user1", { cost: 2 });
+			limiter.refund("/api", "user1", { timestamp: START - 20_000 });
+			expect(limiter.getEntry("/api", "user1")).toMatchObject({ count: 2, previousCount: 0 });
+
+			limiter.refund("/api", "user1");
+			expect(limiter.getEntry("/api", "user1")).toMatchObject({ count: 1, previousCount: 0 });
+		});
+
+		test("should refund through asynchronous stores", async () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.TOKEN_BUCKET, max: 2, store: createAsyncStore(), enableCleanup: false });
+
+			await limiter.checkAsync("/api", "user1");
+			await limiter.checkAsync("/api", "user1");
+			expect(await limiter.refundAsync("/api", "user1")).toMatchObject({ limited: false, remaining: 1 });
+			expect((await limiter.checkAsync("/api", "user1")).limited).toBeFalse();
+		});
+
+		test("should throw for invalid costs", () => {
+			const limiter = new RateLimiter({ enableCleanup: false });
+
+			expect(() => limiter.refund("/api", "user1", { cost: -1 })).toThrow("Invalid cost");
+		});
+	});
+
+	describe("Rules", () => {
+		const limiter = new RateLimiter({
+			max: 3,
+			window: 1000,
+			enableCleanup: false,
+			rules: [
+				{ name: "login", endpoint: "/api/login", max: 1 },
+				{ name: "admin", endpoint: "/admin/", match: MatchType.PREFIX, algorithm: Algorithm.TOKEN_BUCKET, max: 2 },
+				{ name: "reports", endpoint: "/api/*/reports", match: MatchType.GLOB, max: 5 },
+				{ name: "internal", identifier: "10.0.?.*", match: MatchType.GLOB, max: 100 },
+			],
+		});
+
+		test("should apply the limits of the matching rule", () => {
+			expect(limiter.check("/api/login", "user1")).toMatchObject({ limited: false, limit: 1, rule: "login" });
+			expect(limiter.check("/api/login", "user1")).toMatchObject({ limited: true, limit: 1, rule: "login" });
+		});
+
+		test("should match patterns", () => {
+			expect(limiter.check("/admin/users", "user1")).toMatchObject({ rule: "admin", limit: 2 });
+			expect(limiter.check("/api/v1/reports", "user1")).toMatchObject({ rule: "reports", limit: 5 });
+			expect(limiter.check("/api/v1/reports/daily", "user1").rule).toBe("default");
+			expect(limiter.check("/api/login.json", "user1").rule).toBe("default");
+		});
+
+		test("should match identifiers", () => {
+			expect(limiter.check("/api/data", "10.0.1.25")).toMatchObject({ rule: "internal", limit: 100 });
+			expect(limiter.check("/api/data", "10.0.12.25")).toMatchObject({ rule: "default", limit: 3 });
+		});
+
+		test("should use the first matching rule", () => {
+			expect(limiter.check("/api/login", "10.0.1.25").rule).toBe("login");
+		});
+
+		test("should fall back to the default config", () => {
+			expect(limiter.check("/api/data", "user1")).toMatchObject({ limited: false, limit: 3, window: 1000, rule: "default" });
+		});
+
+		test("should use the rule's algorithm", () => {
+			limiter.check("/admin/settings", "user2");
+			expect(limiter.getEntry("/admin/settings", "user2")).toMatchObject({ tokens: 1 });
+			expect(limiter.get("/admin/settings", "user2")).toMatchObject({ remaining: 1, rule: "admin" });
+			expect(limiter.refund("/admin/settings", "user2")).toMatchObject({ remaining: 2, rule: "admin" });
+		});
+
+		test("should keep rules in the shared store", () => {
+			expect(limiter.getSize()).toBeGreaterThan(0);
+			limiter.clear();
+			expect(limiter.getSize()).toBe(0);
+		});
+
+		test("should apply rules in the asynchronous API", async () => {
+			const asyncLimiter = new RateLimiter({
+				store: createAsyncStore(),
+				enableCleanup: false,
+				rules: [{ name: "login", endpoint: "/api/login", max: 1 }],
+			});
+
+			expect(await asyncLimiter.checkAsync("/api/login", "user1")).toMatchObject({ limited: false, rule: "login" });
+			expect(await asyncLimiter.checkAsync("/api/login", "user1")).toMatchObject({ limited: true, rule: "login" });
+			expect(await asyncLimiter.getAsync("/api/data", "user1")).toMatchObject({ limit: 60, rule: "default" });
+		});
+
+		test("should not report rules when none are configured", () => {
+			const plainLimiter = new RateLimiter({ enableCleanup: false });
+			expect(plainLimiter.check("/api", "user1")).not.toHaveProperty("rule");
+		});
+	});
+
+	describe("Multiple Limits", () => {
+		const createLimiter = (config: Partial<RateLimitConfig> = {}) =>
+			new RateLimiter({
+				limits: [
+					{ max: 2, window: 200 },
+					{ algorithm: Algorithm.TOKEN_BUCKET, max: 3, refillRate: 1, refillInterval: 10_000 },
+				],
+				enableCleanup: false,
+				clock,
+				...config,
+			});
+
+		test("should report the strictest limit with the per-limit breakdown", () => {
+			const limiter = createLimiter();
+
+			const result = limiter.check("/api", "user1");
+			expect(result).toMatchObject({ limited: false, remaining: 1, current: 1, limit: 2, window: 200 });
+			expect(result.limits).toHaveLength(2);
+			expect(result.limits![0]).toMatchObject({ remaining: 1, limit: 2 });
+			expect(result.limits![1]).toMatchObject({ remaining: 2, limit: 3 });
+			expect(result.reset).toBe(Math.max(result.limits![0].reset, result.limits![1].reset));
+		});
+
+		test("should limit requests once any limit is exhausted", () => {
+			const limiter = createLimiter();
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			const result = limiter.check("/api", "user1");
+
+			expect(result).toMatchObject({ limited: true, remaining: 0, limit: 2 });
+			expect(result.limits!.map((limit) => limit.limited)).toEqual([true, false]);
+
+			// The token bucket is empty as well, so the next request has to wait for its refill
+			expect(result.retryAfter).toBe(Math.max(...result.limits!.map((limit) => limit.retryAfter)));
+			expect(result.retryAfter).toBeGreaterThan(9000);
+		});
+
+		test("should enforce the sustained limit after the burst window passes", () => {
+			const limiter = createLimiter();
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			clock.advance(250);
+
+			expect(limiter.check("/api", "user1")).toMatchObject({ limited: false, remaining: 0, limit: 3 });
+			expect(limiter.check("/api", "user1")).toMatchObject({ limited: true, limit: 3 });
+		});
+
+		test("should not consume from any limit when one rejects the request", () => {
+			const limiter = createLimiter({ consumeRejected: false });
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			for (let i = 0; i < 5; i++) {
+				expect(limiter.check("/api", "user1").limited).toBeTrue();
+			}
+
+			// The rejected requests didn't take tokens from the sustained limit
+			expect(limiter.get("/api", "user1").limits![1]).toMatchObject({ remaining: 1 });
+			clock.advance(250);
+			expect(limiter.check("/api", "user1").limited).toBeFalse();
+		});
+
+		test("should only consume from the rejecting limits when rejected requests consume", () => {
+			const limiter = createLimiter({
+				limits: [
+					{ max: 5, window: 1000 },
+					{ max: 2, window: 60_000 },
+				],
+			});
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			for (let i = 0; i < 3; i++) {
+				expect(limiter.check("/api", "user1").limited).toBeTrue();
+			}
+
+			// The per-second count doesn't rise on rejected requests, while the per-minute limit counts them
+			expect(limiter.getEntry("/api", "user1")!.limits!.map((limit) => limit!.count)).toEqual([2, 5]);
+		});
+
+		test("should refund every limit", () => {
+			const limiter = createLimiter();
+
+			limiter.check("/api", "user1", { cost: 2 });
+			const result = limiter.refund("/api", "user1");
+
+			expect(result.limits!.map((limit) => limit.remaining)).toEqual([1, 2]);
+		});
+
+		test("should keep the entries of each limit apart", () => {
+			const store = new MemoryStore();
+			const limiter = createLimiter({ store });
+
+			limiter.check("/api", "user1");
+			expect(store.size()).toBe(2);
+		});
+
+		test("should return the entry of each limit", () => {
+			const limiter = createLimiter({ rules: [{ name: "admin", endpoint: "/admin", limits: [{ max: 1 }, { max: 5 }] }] });
+
+			expect(limiter.getEntry("/api", "user1")).toBeNull();
+			limiter.check("/api", "user1");
+			const entry = limiter.getEntry("/api", "user1")!;
+
+			expect(entry.limits).toHaveLength(2);
+			expect(entry.limits![0]).toMatchObject({ count: 1, resetTime: START + 200 });
+			expect(entry.limits![1]).toMatchObject({ tokens: 2 });
+			expect(entry.resetTime).toBe(Math.max(entry.limits![0]!.resetTime, entry.limits![1]!.resetTime));
+
+			limiter.check("/admin", "user1");
+			expect(limiter.getEntry("/admin", "user1")!.limits!.map((limit) => limit?.count)).toEqual([1, 1]);
+		});
+
+		test("should apply limits through asynchronous stores", async () => {
+			const limiter = createLimiter({ store: createAsyncStore(), consumeRejected: false });
+
+			await limiter.checkAsync("/api", "user1");
+			await limiter.checkAsync("/api", "user1");
+			expect((await limiter.checkAsync("/api", "user1")).limited).toBeTrue();
+			expect((await limiter.getAsync("/api", "user1")).limits![1]).toMatchObject({ remaining: 1 });
+		});
+
+		test("should combine failure results", async () => {
+			const limiter = createLimiter({
+				store: { ...createAsyncStore(), get: () => Promise.reject(new Error("Connection lost")) },
+				failureMode: FailureMode.CLOSED,
+			});
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, remaining: 0 });
+		});
+	});
+
+	describe("Tiers", () => {
+		const plans: Record<string, string> = { key1: "free", key2: "pro", key3: "enterprise" };
+		const tiers = {
+			free: { max: 1 },
+			pro: { algorithm: Algorithm.TOKEN_BUCKET, max: 3, refillRate: 1 },
+		};
+
+		test("should apply the limits of the resolved tier", () => {
+			const limiter = new RateLimiter({ max: 2, tiers, resolveTier: (apiKey) => plans[apiKey], enableCleanup: false });
+
+			expect(limiter.check("/api", "key1")).toMatchObject({ limited: false, limit: 1, tier: "free" });
+			expect(limiter.check("/api", "key1")).toMatchObject({ limited: true, limit: 1, tier: "free" });
+			expect(limiter.check("/api", "key2")).toMatchObject({ limited: false, remaining: 2, limit: 3, tier: "pro" });
+			expect(limiter.getEntry("/api", "key2")).toMatchObject({ tokens: 2, tier: "pro" });
+		});
+
+		test("should use the default config for identifiers without a tier", () => {
+			const limiter = new RateLimiter({ max: 2, tiers, resolveTier: (apiKey) => plans[apiKey], enableCleanup: false });
+
+			const result = limiter.check("/api", "anonymous");
+			expect(result).toMatchObject({ limited: false, limit: 2 });
+			expect(result).not.toHaveProperty("tier");
+			expect(limiter.getEntry("/api", "anonymous")).not.toHaveProperty("tier");
+		});
+
+		test("should apply overrides returned by the resolver", () => {
+			const limiter = new RateLimiter({ resolveTier: () => ({ name: "custom", max: 5, window: 1000 }), enableCleanup: false });
+
+			expect(limiter.check("/api", "key1")).toMatchObject({ limit: 5, window: 1000, remaining: 4, tier: "custom" });
+			expect(limiter.get("/api", "key1")).toMatchObject({ remaining: 4, tier: "custom" });
+		});
+
+		test("should throw for unknown tiers", () => {
+			const limiter = new RateLimiter({ tiers, resolveTier: (apiKey) => plans[apiKey], enableCleanup: false });
+
+			expect(() => limiter.check("/api", "key3")).toThrow("Unknown tier: enterprise");
+		});
+
+		test("should cache resolutions", () => {
+			let calls = 0;
+			const limiter = new RateLimiter({ tiers, resolveTier: () => (calls++, "pro"), enableCleanup: false });
+
+			limiter.check("/api", "key1");
+			limiter.check("/api/other", "key1");
+			limiter.get("/api", "key1");
+			expect(calls).toBe(1);
+
+			limiter.check("/api", "key2");
+			expect(calls).toBe(2);
+		});
+
+		test("should resolve the tier once per check when rules are configured", () => {
+			let calls = 0;
+			const limiter = new RateLimiter({
+				rules: [{ name: "login", endpoint: "/login", max: 3 }],
+				tiers,
+				resolveTier: () => (calls++ === 0 ? undefined : "free"),
+				tierCacheTtl: 0,
+				enableCleanup: false,
+			});
+
+			const result = limiter.check("/login", "anonymous");
+			expect(calls).toBe(1);
+			expect(result).toMatchObject({ limit: 3, rule: "login" });
+			expect(result).not.toHaveProperty("tier");
+		});
+
+		test("should resolve again once the cached resolution expires", () => {
+			let calls = 0;
+			const limiter = new RateLimiter({ tiers, resolveTier: () => (calls++, "free"), tierCacheTtl: 50, enableCleanup: false, clock });
+
+			limiter.check("/api", "key1");
+			clock.advance(60);
+			limiter.check("/api", "key1");
+			expect(calls).toBe(2);
+		});
+
+		test("should resolve every request when caching is disabled", () => {
+			let calls = 0;
+			const limiter = new RateLimiter({ tiers, resolveTier: () => (calls++, "free"), tierCacheTtl: 0, enableCleanup: false });
+
+			limiter.check("/api", "key1");
+			limiter.check("/api", "key1");
+			expect(calls).toBe(2);
+		});
+
+		test("should count each tier apart when the tier of an identifier changes", () => {
+			const current: Record<string, string> = { key1: "free" };
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ tiers, resolveTier: (apiKey) => current[apiKey], tierCacheTtl: 0, store, enableCleanup: false, clock });
+
+			expect(limiter.check("/api", "key1")).toMatchObject({ limited: false, tier: "free" });
+			current.key1 = "pro";
+			expect(limiter.check("/api", "key1")).toMatchObject({ limited: false, remaining: 2, current: 1, tier: "pro" });
+			expect(limiter.getEntry("/api", "key1")).toMatchObject({ tokens: 2, tier: "pro" });
+			expect(store.size()).toBe(2);
+
+			// Both entries expire on schedule
+			clock.advance(60_000);
+			store.deleteExpired(clock.now());
+			expect(store.size()).toBe(0);
+		});
+
+		test("should keep rules within tiers", () => {
+			const limiter = new RateLimiter({
+				tiers,
+				resolveTier: (apiKey) => plans[apiKey],
+				rules: [{ name: "login", endpoint: "/login", max: 10 }],
+				enableCleanup: false,
+			});
+
+			expect(limiter.check("/login", "key1")).toMatchObject({ limit: 10, rule: "login", tier: "free" });
+			expect(limiter.check("/api", "key1")).toMatchObject({ limit: 1, rule: "default", tier: "free" });
+		});
+
+		test("should support asynchronous resolvers", async () => {
+			let calls = 0;
+			const limiter = new RateLimiter({
+				tiers,
+				resolveTier: async (apiKey) => (calls++, plans[apiKey]),
+				enableCleanup: false,
+			});
+
+			const results = await Promise.all([limiter.checkAsync("/api", "key1"), limiter.checkAsync("/api", "key1")]);
+			expect(results.map((result) => result.limited).sort()).toEqual([false, true]);
+			expect(results[0].tier).toBe("free");
+			expect(calls).toBe(1);
+
+			expect(() => limiter.check("/api", "key2")).toThrow("tier resolver is asynchronous");
+		});
+
+		test("should retry failed resolutions", async () => {
+			let calls = 0;
+			const limiter = new RateLimiter({
+				tiers,
+				resolveTier: async () => {
+					if (calls++ === 0) throw new Error("Database unavailable");
+					return "pro";
+				},
+				enableCleanup: false,
+			});
+
+			await expect(limiter.checkAsync("/api", "key1")).rejects.toThrow("Database unavailable");
+			expect(await limiter.checkAsync("/api", "key1")).toMatchObject({ limited: false, tier: "pro" });
+		});
+
+		test("should handle resolver failures with the failureMode", async () => {
+			const resolveTier = () => Promise.reject(new Error("Database unavailable"));
+			const open = new RateLimiter({ max: 2, tiers, resolveTier, failureMode: FailureMode.OPEN, enableCleanup: false });
+			const closed = new RateLimiter({ max: 2, tiers, resolveTier, failureMode: FailureMode.CLOSED, enableCleanup: false });
+
+			expect(await open.checkAsync("/api", "key1")).toMatchObject({ limited: false, remaining: 2 });
+			expect(await open.getAsync("/api", "key1")).toMatchObject({ limited: false });
+			expect(await open.refundAsync("/api", "key1")).toMatchObject({ limited: false });
+			expect(await closed.checkAsync("/api", "key1")).toMatchObject({ limited: true, remaining: 0 });
+			expect(closed.getStats()).toMatchObject({ checks: 1, limited: 1 });
+		});
+	});
+
+	describe("Headers", () => {
+		test("should format the IETF RateLimit headers", () => {
+			const limiter = new RateLimiter({ max: 10, window: 60_000, enableCleanup: false });
+
+			expect(limiter.getHeaders(limiter.check("/api", "user1"))).toEqual({
+				"RateLimit-Policy": '"default";q=10;w=60',
+				RateLimit: '"default";r=9;t=60',
+			});
+		});
+
+		test("should include Retry-After and the legacy headers on request", () => {
+			const limiter = new RateLimiter({ max: 1, window: 60_000, enableCleanup: false });
+
+			limiter.check("/api", "user1");
+			const result = limiter.check("/api", "user1");
+
+			expect(limiter.getHeaders(result, { standard: false, legacy: true })).toEqual({
+				"X-RateLimit-Limit": "1",
+				"X-RateLimit-Remaining": "0",
+				"X-RateLimit-Reset": Math.ceil(result.reset / 1000).toString(),
+				"Retry-After": "60",
+			});
+			expect(limiter.getHeaders(result, { retryAfter: false })).not.toHaveProperty("Retry-After");
+		});
+
+		test("should describe buckets by their capacity and the time to refill it", () => {
+			const tokenBucket = new RateLimiter({ algorithm: Algorithm.TOKEN_BUCKET, max: 20, refillRate: 2, refillInterval: 1000, enableCleanup: false });
+			const leakyBucket = new RateLimiter({ algorithm: Algorithm.LEAKY_BUCKET, max: 10, leakRate: 1, leakInterval: 500, enableCleanup: false });
+
+			expect(tokenBucket.getHeaders(tokenBucket.check("/api", "user1"))["RateLimit-Policy"]).toBe('"default";q=20;w=10');
+			expect(leakyBucket.getHeaders(leakyBucket.check("/api", "user1"))["RateLimit-Policy"]).toBe('"default";q=10;w=5');
+		});
+
+		test("should list a policy for every limit", () => {
+			const limiter = new RateLimiter({
+				limits: [
+					{ max: 10, window: 1000 },
+					{ algorithm: Algorithm.TOKEN_BUCKET, max: 100, refillRate: 1, refillInterval: 36_000 },
+				],
+				enableCleanup: false,
+			});
+
+			const headers = limiter.getHeaders(limiter.check("/api", "user1"));
+			expect(headers["RateLimit-Policy"]).toBe('"default-0";q=10;w=1, "default-1";q=100;w=3600');
+			expect(headers["RateLimit"]).toMatch(/^"default-0";r=9;t=1, "default-1";r=99;t=\d+$/);
+		});
+
+		test("should name policies after the rule and tier", () => {
+			const limiter = new RateLimiter({
+				rules: [{ name: "login", endpoint: "/login", max: 5, window: 60_000 }],
+				tiers: { pro: { algorithm: Algorithm.TOKEN_BUCKET, max: 50, refillRate: 5 } },
+				resolveTier: (identifier) => (identifier === "key1" ? "pro" : undefined),
+				enableCleanup: false,
+			});
+
+			expect(limiter.getHeaders(limiter.check("/login", "key2"))["RateLimit-Policy"]).toBe('"login";q=5;w=60');
+			expect(limiter.getHeaders(limiter.check("/login", "key1"))["RateLimit-Policy"]).toBe('"pro-login";q=5;w=1');
+			expect(limiter.getHeaders(limiter.check("/api", "key1"))["RateLimit-Policy"]).toBe('"pro-default";q=50;w=10');
+		});
+	});
+
+	describe("Store", () => {
+		test("should keep entries in a provided store", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ max: 2, window: 1000, store, enableCleanup: false });
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+
+			expect(store.size()).toBe(1);
+			expect(store.get("/api:user1")).toMatchObject({ count: 2 });
+			expect(limiter.check("/api", "user1").limited).toBeTrue();
+		});
+
+		test("should share state between limiters using the same store", () => {
+			const store = new MemoryStore();
+			const limiterA = new RateLimiter({ algorithm: Algorithm.TOKEN_BUCKET, max: 2, store, enableCleanup: false });
+			const limiterB = new RateLimiter({ algorithm: Algorithm.TOKEN_BUCKET, max: 2, store, enableCleanup: false });
+
+			limiterA.check("/api", "user1");
+			limiterB.check("/api", "user1");
+
+			expect(limiterA.check("/api", "user1").limited).toBeTrue();
+			expect(limiterB.getSize()).toBe(1);
+		});
+
+		test("should support custom store implementations", () => {
+			const map = new Map<StoreKey, Entry>();
+			const calls: string[] = [];
+			const store: RateLimitStore = {
+				get: (key) => (calls.push("get"), map.get(key)),
+				set: (key, entry) => void (calls.push("set"), map.set(key, entry)),
+				delete: (key) => (calls.push("delete"), map.delete(key)),
+				increment: (key, amount, resetTime, now) => {
+					calls.push("increment");
+					const existing = map.get(key);
+					const entry = existing && existing.resetTime > now ? existing : { count: 0, resetTime };
+					entry.count! += amount;
+					map.set(key, entry);
+					return entry;
+				},
+				entries: () => map.entries(),
+				size: () => map.size,
+				clear: () => map.clear(),
+			};
+
+			const fixed = new RateLimiter({ max: 5, store, enableCleanup: false });
+			fixed.check("/fixed", "user1");
+			expect(calls).toEqual(["increment"]);
+
+			const sliding = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 5, store, enableCleanup: false });
+			sliding.check("/sliding", "user1");
+			expect(calls).toEqual(["increment", "get", "set"]);
+			expect(sliding.getEntry("/sliding", "user1")?.count).toBe(1);
+		});
+
+		test("should reject asynchronous stores in synchronous methods", () => {
+			const limiter = new RateLimiter({ store: createAsyncStore(), enableCleanup: false });
+
+			expect(() => limiter.check("/api", "user1")).toThrow("asynchronous");
+			expect(() => limiter.getSize()).toThrow("asynchronous");
+		});
+	});
+
+	describe("Async API", () => {
+		const failingStore: RateLimitStore = {
+			...createAsyncStore(),
+			get: async () => {
+				throw new Error("Connection lost");
+			},
+			increment: async () => {
+				throw new Error("Connection lost");
+			},
+		};
+
+		test("should check requests through asynchronous stores", async () => {
+			for (const algorithm of [Algorithm.FIXED_WINDOW, Algorithm.SLIDING_WINDOW, Algorithm.TOKEN_BUCKET]) {
+				const limiter = new RateLimiter({ algorithm, max: 2, window: 1000, store: createAsyncStore(), enableCleanup: false });
+
+				expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: false, remaining: 1 });
+				expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: false, remaining: 0 });
+				expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, remaining: 0 });
+			}
+		});
+
+		test("should match the synchronous API for synchronous stores", async () => {
+			const syncLimiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 5, window: 1000, enableCleanup: false, clock });
+			const asyncLimiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 5, window: 1000, enableCleanup: false, clock });
+
+			for (let i = 0; i < 3; i++) {
+				const expected = syncLimiter.check("/api", "user1");
+				expect(await asyncLimiter.checkAsync("/api", "user1")).toEqual(expected);
+				clock.advance(150);
+			}
+			expect(await asyncLimiter.getAsync("/api", "user1")).toMatchObject({ current: 3, remaining: 2 });
+		});
+
+		test("should get status without counting", async () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.TOKEN_BUCKET, max: 5, store: createAsyncStore(), enableCleanup: false });
+
+			expect(await limiter.getAsync("/api", "user1")).toMatchObject({ limited: false, current: 0, remaining: 5 });
+
+			await limiter.checkAsync("/api", "user1");
+			expect(await limiter.getAsync("/api", "user1")).toMatchObject({ current: 1, remaining: 4 });
+			expect(await limiter.getAsync("/api", "user1")).toMatchObject({ current: 1, remaining: 4 });
+		});
+
+		test("should reject with the store error by default", async () => {
+			const limiter = new RateLimiter({ store: failingStore, enableCleanup: false });
+
+			await expect(limiter.checkAsync("/api", "user1")).rejects.toThrow("Connection lost");
+			await expect(limiter.getAsync("/api", "user1")).rejects.toThrow("Connection lost");
+		});
+
+		test("should allow requests when failing open", async () => {
+			const limiter = new RateLimiter({ max: 5, store: failingStore, failureMode: FailureMode.OPEN, enableCleanup: false });
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: false, current: 0, remaining: 5 });
+			expect(await limiter.getAsync("/api", "user1")).toMatchObject({ limited: false, current: 0, remaining: 5 });
+		});
+
+		test("should limit requests when failing closed", async () => {
+			const limiter = new RateLimiter({ max: 5, store: failingStore, failureMode: FailureMode.CLOSED, enableCleanup: false });
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, current: 5, remaining: 0 });
+		});
+
+		test("should treat slow stores as failed after storeTimeout", async () => {
+			const hangingStore: RateLimitStore = { ...createAsyncStore(), increment: () => new Promise<Entry>(() => {}) };
+			const limiter = new RateLimiter({ store: hangingStore, storeTimeout: 20, enableCleanup: false });
+
+			await expect(limiter.checkAsync("/api", "user1")).rejects.toThrow("timed out after 20ms");
+
+			const closedLimiter = new RateLimiter({ store: hangingStore, storeTimeout: 20, failureMode: FailureMode.CLOSED, enableCleanup: false });
+			expect((await closedLimiter.checkAsync("/api", "user1")).limited).toBeTrue();
+		});
+	});
+
+	describe("Expiry", () => {
+		test("should delete exactly the expired entries of a memory store", () => {
+			const store = new MemoryStore();
+
+			store.set("a", { count: 1, resetTime: START + 100 });
+			store.set("b", { count: 1, resetTime: START + 1500 });
+			store.set("c", { count: 1, resetTime: START + 2500 });
+			store.set("d", { count: 1, resetTime: START + 100 });
+			store.set("d", { count: 1, resetTime: START + 5000 });
+			store.increment("e", 1, START + 200, START);
+
+			expect(store.deleteExpired(START + 1500).map(([key]) => key)).toEqual(["a", "e", "b"]);
+			expect([...store.entries()].map(([key]) => key)).toEqual(["c", "d"]);
+
+			expect(store.deleteExpired(START + 1_000_000)).toHaveLength(2);
+			expect(store.size()).toBe(0);
+		});
+
+		test("should find entries changed in place", () => {
+			const store = new MemoryStore();
+			const entry: Entry = { count: 1, resetTime: START + 100 };
+
+			store.set("a", entry);
+			entry.resetTime = START + 5000;
+
+			expect(store.deleteExpired(START + 1000)).toEqual([]);
+			expect(store.deleteExpired(START + 5000)).toEqual([["a", entry]]);
+			expect(store.size()).toBe(0);
+		});
+
+		test("should keep expiring other entries next to ones without a finite reset time", () => {
+			const store = new MemoryStore();
+
+			store.set("a", { count: 1, resetTime: NaN });
+			store.set("b", { count: 1, resetTime: Infinity });
+			store.set("c", { count: 1, resetTime: START + 100 });
+
+			expect(store.deleteExpired(START + 1000).map(([key]) => key)).toEqual(["c"]);
+			expect(store.size()).toBe(2);
+		});
+
+		test("should stop tracking deleted and cleared entries", () => {
+			const store = new MemoryStore();
+
+			store.set("a", { count: 1, resetTime: START + 100 });
+			store.delete("a");
+			store.set("b", { count: 1, resetTime: START + 100 });
+			store.clear();
+			store.set("c", { count: 1, resetTime: START + 100 });
+
+			expect(store.deleteExpired(START + 100)).toHaveLength(1);
+			expect(store.size()).toBe(0);
+		});
+
+		test("should keep sliding window entries until their newest request leaves the window", () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 5, window: 1000, cleanupInterval: 100, clock, scheduler: clock });
+
+			limiter.check("/api", "user1");
+			clock.advance(800);
+			limiter.check("/api", "user1");
+
+			// The first request left the window, the second one still counts
+			clock.advance(500);
+			expect(limiter.getSize()).toBe(1);
+			expect(limiter.get("/api", "user1")).toMatchObject({ current: 1, reset: START + 1800 });
+
+			clock.advance(500);
+			expect(limiter.getSize()).toBe(0);
+		});
+	});
+
+	describe("Max Entries", () => {
+		test("should stay bounded under key churn", () => {
+			const limiter = new RateLimiter({ max: 2, window: 60_000, maxEntries: 100, enableCleanup: false, clock });
+
+			for (let i = 0; i < 10_000; i++) {
+				limiter.check("/api", `user${i}`);
+				expect(limiter.getSize()).toBeLessThanOrEqual(100);
+			}
+
+			expect(limiter.getStats()).toMatchObject({ size: 100, evictions: 9900, rejections: 0 });
+			expect(limiter.getEntry("/api", "user9999")).not.toBeNull();
+			expect(limiter.getEntry("/api", "user0")).toBeNull();
+		});
+
+		test("should evict the least recently used entry", () => {
+			for (const algorithm of [Algorithm.FIXED_WINDOW, Algorithm.SLIDING_WINDOW, Algorithm.TOKEN_BUCKET, Algorithm.GCRA]) {
+				const limiter = new RateLimiter({ algorithm, max: 2, maxEntries: 2, enableCleanup: false, clock });
+
+				limiter.check("/api", "user1");
+				limiter.check("/api", "user2");
+				limiter.check("/api", "user1");
+				limiter.check("/api", "user3");
+
+				expect(limiter.getEntry("/api", "user1")).not.toBeNull();
+				expect(limiter.getEntry("/api", "user2")).toBeNull();
+				expect(limiter.getEntry("/api", "user3")).not.toBeNull();
+				expect(limiter.getStats().evictions).toBe(1);
+			}
+		});
+
+		test("should count evictions of rules and limits", () => {
+			const limiter = new RateLimiter({
+				limits: [{ max: 2 }, { max: 10 }],
+				rules: [{ name: "login", endpoint: "/login", max: 1 }],
+				maxEntries: 4,
+				enableCleanup: false,
+				clock,
+			});
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user2");
+			limiter.check("/login", "user1");
+
+			expect(limiter.getStats()).toMatchObject({ size: 4, evictions: 1, rejections: 0 });
+		});
+
+		test("should limit new identifiers when the policy is LIMIT", () => {
+			const limiter = new RateLimiter({ max: 2, window: 1000, maxEntries: 2, evictionPolicy: EvictionPolicy.LIMIT, clock, scheduler: clock });
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user2");
+
+			expect(limiter.check("/api", "user3")).toMatchObject({ limited: true, remaining: 0, retryAfter: 1000 });
+			expect(limiter.check("/api", "user1")).toMatchObject({ limited: false, remaining: 0 });
+			expect(limiter.getStats()).toMatchObject({ size: 2, evictions: 0, rejections: 1 });
+
+			// The cleanup makes room again
+			clock.advance(60_000);
+			expect(limiter.check("/api", "user3").limited).toBeFalse();
+		});
+
+		test("should limit new identifiers of asynchronous stores when the policy is LIMIT", async () => {
+			const limiter = new RateLimiter({ store: createAsyncStore(), maxEntries: 1, evictionPolicy: EvictionPolicy.LIMIT, enableCleanup: false, clock });
+
+			expect((await limiter.checkAsync("/api", "user1")).limited).toBeFalse();
+			expect((await limiter.checkAsync("/api", "user2")).limited).toBeTrue();
+			expect((await limiter.checkAsync("/api", "user1")).limited).toBeFalse();
+		});
+
+		test("should require a store tracking its size when the policy is LIMIT", () => {
+			const { tracksSize, ...store } = createAsyncStore();
+
+			expect(() => new RateLimiter({ store, maxEntries: 1, evictionPolicy: EvictionPolicy.LIMIT })).toThrow("requires a store that tracks its size");
+			expect(() => new RateLimiter({ store, maxEntries: 1 })).not.toThrow();
+		});
+
+		test("should evict from a memory store with maxEntries", () => {
+			const evicted: string[] = [];
+			const store = new MemoryStore({ maxEntries: 2, onEvict: (key) => evicted.push(key) });
+
+			store.set("a", { count: 1, resetTime: START });
+			store.set("b", { count: 1, resetTime: START });
+			store.get("a");
+			store.increment("c", 1, START, START - 1);
+
+			expect([...store.entries()].map(([key]) => key)).toEqual(["a", "c"]);
+			expect(evicted).toEqual(["b"]);
+		});
+	});
+
+	describe("Allowlist and Denylist", () => {
+		test("should bypass allowlisted identifiers without creating entries", () => {
+			const limiter = new RateLimiter({ max: 1, allowlist: ["health-checker", "team/ops"], enableCleanup: false, clock });
+
+			for (let i = 0; i < 3; i++) {
+				expect(limiter.check("/api", "health-checker")).toMatchObject({ limited: false, bypassed: true, remaining: 1 });
+			}
+			expect(limiter.check("/api", "team/ops").bypassed).toBeTrue();
+			expect(limiter.getSize()).toBe(0);
+
+			expect(limiter.check("/api", "user1")).not.toHaveProperty("bypassed");
+			expect(limiter.check("/api", "user1").limited).toBeTrue();
+		});
+
+		test("should deny denylisted identifiers, taking precedence over the allowlist", () => {
+			const limiter = new RateLimiter({ allowlist: ["203.0.113.0/24"], denylist: ["203.0.113.66"], enableCleanup: false, clock });
+
+			expect(limiter.check("/api", "203.0.113.66")).toMatchObject({ limited: true, denied: true, remaining: 0 });
+			expect(limiter.check("/api", "203.0.113.67")).toMatchObject({ limited: false, bypassed: true });
+			expect(limiter.getSize()).toBe(0);
+		});
+
+		test("should report denied requests as never allowed", () => {
+			const limiter = new RateLimiter({ max: 5, denylist: ["10.0.0.0/8"], enableCleanup: false, clock });
+
+			expect(limiter.check("/api", "10.1.2.3")).toMatchObject({ limited: true, denied: true, current: 0, reset: Infinity, retryAfter: Infinity });
+			expect(limiter.getHeaders(limiter.check("/api", "10.1.2.3"), { legacy: true })).toEqual({});
+		});
+
+		test("should apply the lists when reading the status", async () => {
+			const limiter = new RateLimiter({
+				max: 5,
+				limits: [{ max: 5, window: 1000 }],
+				allowlist: ["health-checker"],
+				denylist: ["10.0.0.0/8"],
+				enableCleanup: false,
+				clock,
+			});
+
+			expect(limiter.get("/a", "10.1.2.3")).toMatchObject({ limited: true, denied: true, remaining: 0, retryAfter: Infinity });
+			expect(await limiter.getAsync("/a", "10.1.2.3")).toMatchObject({ limited: true, denied: true });
+			expect(limiter.get("/a", "health-checker")).toMatchObject({ limited: false, bypassed: true });
+			expect(limiter.get("/a", "user1")).not.toHaveProperty("denied");
+		});
+
+		test("should match normalized identifiers, and CIDR ranges against the address as passed", () => {
+			const limiter = new RateLimiter({
+				allowlist: ["2001:db8:1:2::1"],
+				denylist: ["baduser", (identifier) => identifier.endsWith("@spam.example")],
+				identifierNormalization: { lowercase: true, ipv6Prefix: 64 },
+				enableCleanup: false,
+				clock,
+			});
+
+			expect(limiter.check("/api", "BadUser")).toMatchObject({ limited: true, denied: true });
+			expect(limiter.check("/api", "Bot@SPAM.example").denied).toBeTrue();
+			expect(limiter.check("/api", "2001:DB8:1:2:0:0:0:1").bypassed).toBeTrue();
+			expect(limiter.check("/api", "2001:db8:1:2::2")).not.toHaveProperty("bypassed");
+			expect(limiter.check("/api", "GoodUser")).not.toHaveProperty("denied");
+		});
+
+		test("should match IPv4 and IPv6 CIDR ranges", () => {
+			const limiter = new RateLimiter({ denylist: ["10.0.0.0/8", "2001:db8:abcd::/48", "192.0.2.1"], enableCleanup: false, clock });
+			const denied = (identifier: string) => limiter.check("/api", identifier).denied === true;
+
+			expect(denied("10.255.0.1")).toBeTrue();
+			expect(denied("11.0.0.1")).toBeFalse();
+			expect(denied("2001:db8:abcd:12::1")).toBeTrue();
+			expect(denied("2001:0DB8:ABCD:0000:0000:0000:0000:0001")).toBeTrue();
+			expect(denied("2001:db8:abce::1")).toBeFalse();
+			expect(denied("::ffff:10.1.2.3")).toBeTrue();
+			expect(denied("::ffff:c000:201")).toBeTrue();
+			expect(denied("192.0.2.2")).toBeFalse();
+			expect(denied("not-an-ip")).toBeFalse();
+		});
+
+		test("should match predicates against identifier and endpoint", () => {
+			const limiter = new RateLimiter({
+				max: 1,
+				allowlist: [(identifier, endpoint) => endpoint === "/health" || identifier.startsWith("internal-")],
+				enableCleanup: false,
+				clock,
+			});
+
+			expect(limiter.check("/health", "user1").bypassed).toBeTrue();
+			expect(limiter.check("/api", "internal-worker").bypassed).toBeTrue();
+			expect(limiter.check("/api", "user1").bypassed).toBeUndefined();
+		});
+
+		test("should tag results of rules, limits and the asynchronous API", async () => {
+			const limiter = new RateLimiter({
+				store: createAsyncStore(),
+				limits: [{ max: 1 }, { max: 10 }],
+				rules: [{ name: "login", endpoint: "/login", max: 1 }],
+				denylist: ["2001:db8::/32"],
+				enableCleanup: false,
+				clock,
+			});
+
+			expect(await limiter.checkAsync("/login", "2001:db8::1")).toMatchObject({ limited: true, denied: true, rule: "login" });
+			expect(await limiter.checkAsync("/api", "2001:db8::1")).toMatchObject({ limited: true, denied: true, rule: "default" });
+			expect((await limiter.getStatsAsync()).size).toBe(0);
+		});
+
+		test("should reject invalid CIDR ranges", () => {
+			expect(() => new RateLimiter({ allowlist: ["10.0.0.0/33"] })).toThrow("Invalid CIDR range: 10.0.0.0/33");
+			expect(() => new RateLimiter({ denylist: ["2001:db8::/129"] })).toThrow("Invalid CIDR range: 2001:db8::/129");
+		});
+	});
+
+	describe("Identifier Normalization", () => {
+		const keysOf = (store: MemoryStore) => Array.from(store.entries(), ([key]) => key);
+
+		test("should key every textual form of an IPv6 address the same way", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ store, max: 10, identifierNormalization: {}, enableCleanup: false, clock });
+			const forms = [
+				"2001:db8::1",
+				"2001:DB8::1",
+				"2001:0db8:0000:0000:0000:0000:0000:0001",
+				"2001:db8:0:0:0:0:0:1",
+				"2001:db8::0:1",
+				"2001:db8:0::1",
+				"2001:db8::1%eth0",
+			];
+
+			forms.forEach((form) => limiter.check("/api", form));
+
+			expect(keysOf(store)).toEqual(["/api:2001:db8::1"]);
+			expect(limiter.get("/api", "2001:0DB8::0001").current).toBe(forms.length);
+		});
+
+		test("should format addresses canonically", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ store, identifierNormalization: { ipv4Mapped: false }, enableCleanup: false, clock });
+
+			for (const identifier of ["0:0:0:0:0:0:0:0", "1:0:0:2:0:0:0:3", "1:0:2:3:4:5:6:7", "::ffff:192.0.2.1", "::FFFF:C000:0201", "010.001.002.003"]) {
+				limiter.check("/api", identifier);
+			}
+
+			expect(keysOf(store)).toEqual(["/api:::", "/api:1:0:0:2::3", "/api:1:0:2:3:4:5:6:7", "/api:::ffff:192.0.2.1", "/api:10.1.2.3"]);
+		});
+
+		test("should collapse IPv6 addresses to the configured prefix", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ store, max: 2, identifierNormalization: { ipv6Prefix: 64 }, enableCleanup: false, clock });
+
+			expect(limiter.check("/api", "2001:db8:1:2::1").limited).toBeFalse();
+			expect(limiter.check("/api", "2001:db8:1:2:ffff:ffff:ffff:ffff").limited).toBeFalse();
+			expect(limiter.check("/api", "2001:0db8:0001:0002:abcd::").limited).toBeTrue();
+			expect(limiter.check("/api", "2001:db8:1:3::1").limited).toBeFalse();
+			expect(limiter.check("/api", "192.0.2.1").limited).toBeFalse();
+
+			expect(keysOf(store)).toEqual(["/api:2001:db8:1:2::/64", "/api:2001:db8:1:3::/64", "/api:192.0.2.1"]);
+		});
+
+		test("should key IPv4-mapped addresses by their IPv4 address", () => {
+			const limiter = new RateLimiter({ max: 2, identifierNormalization: { ipv6Prefix: 64 }, enableCleanup: false, clock });
+
+			limiter.check("/api", "192.0.2.1");
+			limiter.check("/api", "::ffff:192.0.2.1");
+
+			expect(limiter.check("/api", "::ffff:c000:201").limited).toBeTrue();
+		});
+
+		test("should lowercase identifiers and apply the custom normalizer last", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({
+				store,
+				limits: [{ max: 5 }, { max: 10 }],
+				identifierNormalization: { lowercase: true, custom: (identifier) => identifier.replace(/\+.*@/, "@") },
+				enableCleanup: false,
+				clock,
+			});
+
+			limiter.check("/api", "Alice@Example.com");
+			limiter.check("/api", "alice+spam@example.COM");
+
+			expect(keysOf(store)).toEqual(["/api:alice@example.com#0", "/api:alice@example.com#1"]);
+			expect(limiter.get("/api", "ALICE@example.com").current).toBe(2);
+		});
+
+		test("should use identifiers verbatim without normalization", () => {
+			const store = new MemoryStore();
+			const limiter = new RateLimiter({ store, enableCleanup: false, clock });
+
+			limiter.check("/api", "2001:DB8::1");
+			limiter.check("/api", "2001:db8::1");
+
+			expect(keysOf(store)).toEqual(["/api:2001:DB8::1", "/api:2001:db8::1"]);
+		});
+
+		test("should reject invalid prefix lengths", () => {
+			expect(() => new RateLimiter({ identifierNormalization: { ipv6Prefix: 129 } })).toThrow("Invalid IPv6 prefix length: 129");
+		});
+	});
+
+	describe("Events", () => {
+		test("should emit allowed and limited events and count them per endpoint", () => {
+			const limiter = new RateLimiter({ max: 1, window: 1000, enableCleanup: false, clock });
+			const events: string[] = [];
+			limiter.on("allowed", ({ endpoint, identifier, result }) => events.push(`allowed ${endpoint} ${identifier} ${result.remaining}`));
+			limiter.on("limited", ({ endpoint, identifier, result }) => events.push(`limited ${endpoint} ${identifier} ${result.retryAfter}`));
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			limiter.check("/login", "user1");
+
+			expect(events).toEqual(["allowed /api user1 0", "limited /api user1 1000", "allowed /login user1 0"]);
+			expect(limiter.getStats()).toEqual({
+				size: 2,
+				checks: 3,
+				limited: 1,
+				endpoints: {
+					"/api": { checks: 2, limited: 1, algorithms: { FIXED_WINDOW: { checks: 2, limited: 1 } } },
+					"/login": { checks: 1, limited: 0, algorithms: { FIXED_WINDOW: { checks: 1, limited: 0 } } },
+				},
+				evictions: 0,
+				expirations: 0,
+				cleanups: 0,
+				cleanupDuration: 0,
+				rejections: 0,
+			});
+		});
+
+		test("should emit entryCreated for every entry a request starts tracking", () => {
+			const limiter = new RateLimiter({ limits: [{ max: 1 }, { max: 10 }], consumeRejected: false, enableCleanup: false, clock });
+			const keys: string[] = [];
+			limiter.on("entryCreated", ({ key }) => keys.push(key));
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			expect(keys).toEqual(["/api:user1#0", "/api:user1#1"]);
+
+			// Rejected requests that don't consume anything don't create entries
+			limiter.check("/api", "user2", { cost: 2 });
+			expect(keys).toHaveLength(2);
+		});
+
+		test("should emit entryExpired for entries removed by the cleanup", () => {
+			const limiter = new RateLimiter({ window: 1000, cleanupInterval: 5000, clock, scheduler: clock });
+			const expired: string[] = [];
+			limiter.on("entryExpired", ({ key, entry }) => expired.push(`${key} ${entry.count}`));
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			clock.advance(5000);
+
+			expect(expired).toEqual(["/api:user1 2"]);
+			expect(limiter.getStats().expirations).toBe(1);
+		});
+
+		test("should emit entryExpired when the cleanup scans an asynchronous store", async () => {
+			const limiter = new RateLimiter({ store: createAsyncStore(), window: 1000, cleanupInterval: 5000, clock, scheduler: clock });
+			const expired: string[] = [];
+			limiter.on("entryExpired", ({ key }) => expired.push(key));
+
+			await limiter.checkAsync("/api", "user1");
+			clock.advance(5000);
+			await Bun.sleep(0);
+
+			expect(expired).toEqual(["/api:user1"]);
+		});
+
+		test("should emit entryEvicted when maxEntries is reached", () => {
+			const limiter = new RateLimiter({ maxEntries: 1, enableCleanup: false, clock });
+			const evicted: string[] = [];
+			limiter.on("entryEvicted", ({ key }) => evicted.push(key));
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user2");
+
+			expect(evicted).toEqual(["/api:user1"]);
+		});
+
+		test("should report events of rules and tiers to the parent listeners", async () => {
+			const limiter = new RateLimiter({
+				rules: [{ name: "login", endpoint: "/login", max: 1 }],
+				tiers: { free: { max: 1 } },
+				resolveTier: (identifier) => (identifier.startsWith("free") ? "free" : undefined),
+				enableCleanup: false,
+				clock,
+			});
+			const limited: string[] = [];
+			limiter.on("limited", ({ endpoint, identifier }) => limited.push(`${endpoint} ${identifier}`));
+
+			limiter.check("/login", "user1");
+			limiter.check("/login", "user1");
+			await limiter.checkAsync("/api", "free1");
+			await limiter.checkAsync("/api", "free1");
+
+			expect(limited).toEqual(["/login user1", "/api free1"]);
+			expect(limiter.getStats()).toMatchObject({ checks: 4, limited: 2 });
+		});
+
+		test("should remove listeners", () => {
+			const limiter = new RateLimiter({ enableCleanup: false, clock });
+			const calls: string[] = [];
+			const other = () => calls.push("other");
+
+			const stop = limiter.on("allowed", () => calls.push("listener"));
+			limiter.on("allowed", other);
+			limiter.check("/api", "user1");
+			stop();
+			limiter.off("allowed", other);
+			limiter.check("/api", "user1");
+
+			expect(calls).toEqual(["listener", "other"]);
+		});
+
+		test("should count the results of failing stores", async () => {
+			const limiter = new RateLimiter({
+				store: { ...createAsyncStore(), increment: () => Promise.reject(new Error("Connection lost")) },
+				failureMode: FailureMode.CLOSED,
+				enableCleanup: false,
+				clock,
+			});
+			const limited: boolean[] = [];
+			limiter.on("limited", ({ result }) => limited.push(result.limited));
+
+			await limiter.checkAsync("/api", "user1");
+
+			expect(limited).toEqual([true]);
+			expect(await limiter.getStatsAsync()).toMatchObject({ size: 0, checks: 1, limited: 1 });
+		});
+
+		test("should count endpoints beyond maxStatsEndpoints together", () => {
+			const limiter = new RateLimiter({ maxStatsEndpoints: 2, enableCleanup: false, clock });
+
+			for (let i = 0; i < 4; i++) {
+				limiter.check(`/api/${i}`, "user1");
+			}
+			limiter.check("/api/1", "user1");
+
+			const { endpoints } = limiter.getStats();
+			expect(Object.keys(endpoints)).toEqual(["/api/0", "/api/1", "*"]);
+			expect(endpoints["/api/1"]).toMatchObject({ checks: 2, limited: 0 });
+			expect(endpoints["*"]).toMatchObject({ checks: 2, limited: 0 });
+		});
+	});
+
+	describe("Metrics", () => {
+		test("should expose request counters labelled by endpoint, algorithm and result", () => {
+			const limiter = new RateLimiter({
+				max: 1,
+				rules: [{ name: "login", endpoint: "/login", algorithm: Algorithm.GCRA, max: 1 }],
+				enableCleanup: false,
+				clock,
+			});
+
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user1");
+			limiter.check("/login", "user1");
+
+			const metrics = parseMetrics(limiter.getMetrics());
+			expect(metrics.types).toMatchObject({
+				rate_limiter_requests_total: "counter",
+				rate_limiter_entries: "gauge",
+				rate_limiter_evicted_entries_total: "counter",
+				rate_limiter_expired_entries_total: "counter",
+				rate_limiter_rejected_requests_total: "counter",
+				rate_limiter_cleanup_duration_seconds: "summary",
+			});
+			expect(metrics.samples).toEqual({
+				'rate_limiter_requests_total{endpoint="/api",algorithm="FIXED_WINDOW",result="allowed"}': 1,
+				'rate_limiter_requests_total{endpoint="/api",algorithm="FIXED_WINDOW",result="limited"}': 1,
+				'rate_limiter_requests_total{endpoint="/login",algorithm="GCRA",result="allowed"}': 1,
+				'rate_limiter_requests_total{endpoint="/login",algorithm="GCRA",result="limited"}': 0,
+				rate_limiter_entries: 2,
+				rate_limiter_evicted_entries_total: 0,
+				rate_limiter_expired_entries_total: 0,
+				rate_limiter_rejected_requests_total: 0,
+				rate_limiter_cleanup_duration_seconds_sum: 0,
+				rate_limiter_cleanup_duration_seconds_count: 0,
+			});
+		});
+
+		test("should never label samples by identifier", () => {
+			const limiter = new RateLimiter({ max: 1, enableCleanup: false, clock });
+			for (let i = 0; i < 100; i++) {
+				limiter.check("/api", `user${i}`);
+			}
+
+			const metrics = limiter.getMetrics();
+			expect(metrics).not.toContain("user");
+			expect(parseMetrics(metrics).samples['rate_limiter_requests_total{endpoint="/api",algorithm="FIXED_WINDOW",result="allowed"}']).toBe(100);
+		});
+
+		test("should bound the endpoint label and drop it when disabled", () => {
+			const limiter = new RateLimiter({
+				limits: [{ max: 10 }, { algorithm: Algorithm.TOKEN_BUCKET, max: 5 }],
+				maxStatsEndpoints: 1,
+				enableCleanup: false,
+				clock,
+			});
+			limiter.check("/a", "user1");
+			limiter.check("/b", "user1");
+			limiter.check("/c", "user1");
+
+			const requests = (options?: MetricsOptions) =>
+				Object.entries(parseMetrics(limiter.getMetrics(options)).samples).filter(([sample]) => sample.startsWith("rate_limiter_requests_total"));
+
+			expect(requests()).toEqual([
+				['rate_limiter_requests_total{endpoint="/a",algorithm="FIXED_WINDOW+TOKEN_BUCKET",result="allowed"}', 1],
+				['rate_limiter_requests_total{endpoint="/a",algorithm="FIXED_WINDOW+TOKEN_BUCKET",result="limited"}', 0],
+				['rate_limiter_requests_total{endpoint="*",algorithm="FIXED_WINDOW+TOKEN_BUCKET",result="allowed"}', 2],
+				['rate_limiter_requests_total{endpoint="*",algorithm="FIXED_WINDOW+TOKEN_BUCKET",result="limited"}', 0],
+			]);
+			expect(requests({ endpoints: false })).toEqual([
+				['rate_limiter_requests_total{algorithm="FIXED_WINDOW+TOKEN_BUCKET",result="allowed"}', 3],
+				['rate_limiter_requests_total{algorithm="FIXED_WINDOW+TOKEN_BUCKET",result="limited"}', 0],
+			]);
+		});
+
+		test("should count evictions, expirations and cleanups", () => {
+			const limiter = new RateLimiter({ window: 1000, maxEntries: 1, cleanupInterval: 5000, clock, scheduler: clock });
+			limiter.check("/api", "user1");
+			limiter.check("/api", "user2");
+			clock.advance(5000);
+
+			const { samples } = parseMetrics(limiter.getMetrics());
+			expect(samples).toMatchObject({
+				rate_limiter_entries: 0,
+				rate_limiter_evicted_entries_total: 1,
+				rate_limiter_expired_entries_total: 1,
+				rate_limiter_cleanup_duration_seconds_count: 1,
+			});
+			expect(samples["rate_limiter_cleanup_duration_seconds_sum"]).toBeGreaterThanOrEqual(0);
+		});
+
+		test("should apply the prefix and constant labels and escape label values", async () => {
+			const limiter = new RateLimiter({ store: createAsyncStore(), enableCleanup: false, clock });
+			await limiter.checkAsync('/api/"quoted"\\path', "user1");
+
+			const { samples } = parseMetrics(await limiter.getMetricsAsync({ prefix: "api_limiter", labels: { instance: "a" } }));
+			expect(samples).toMatchObject({
+				'api_limiter_requests_total{instance="a",endpoint="/api/\\"quoted\\"\\\\path",algorithm="FIXED_WINDOW",result="allowed"}': 1,
+				'api_limiter_entries{instance="a"}': 1,
+			});
+		});
+
+		test("should use the OpenMetrics format when requested", () => {
+			const limiter = new RateLimiter({ enableCleanup: false, clock });
+			limiter.check("/api", "user1");
+
+			const metrics = limiter.getMetrics({ openMetrics: true });
+			expect(metrics.endsWith("# EOF\n")).toBeTrue();
+			expect(parseMetrics(metrics).types).toMatchObject({ rate_limiter_requests: "counter", rate_limiter_entries: "gauge" });
+			expect(parseMetrics(metrics).samples['rate_limiter_requests_total{endpoint="/api",algorithm="FIXED_WINDOW",result="allowed"}']).toBe(1);
+		});
+	});
+
+	describe("Snapshots", () => {
+		test("should round trip every algorithm through JSON", () => {
+			const config: Partial<RateLimitConfig> = {
+				max: 5,
+				limits: [
+					{ algorithm: Algorithm.FIXED_WINDOW },
+					{ algorithm: Algorithm.SLIDING_WINDOW },
+					{ algorithm: Algorithm.SLIDING_WINDOW_COUNTER },
+					{ algorithm: Algorithm.TOKEN_BUCKET },
+					{ algorithm: Algorithm.LEAKY_BUCKET },
+					{ algorithm: Algorithm.GCRA },
+				],
+				enableCleanup: false,
+				clock,
+			};
+			const limiter = new RateLimiter(config);
+
+			limiter.check("/api", "user1");
+			clock.advance(250);
+			limiter.check("/api", "user1", { cost: 2 });
+
+			const snapshot = JSON.parse(JSON.stringify(limiter.export()));
+			expect(snapshot).toMatchObject({ version: 1, createdAt: START + 250 });
+			expect(snapshot.entries).toHaveLength(6);
+
+			const restored = new RateLimiter(config);
+			expect(restored.import(snapshot)).toBe(6);
+
+			const entry = restored.getEntry("/api", "user1")!;
+			expect(entry).toEqual(limiter.getEntry("/api", "user1")!);
+			expect(entry.limits!.every(Boolean)).toBeTrue();
+			expect(entry.limits![1]!.buckets).toBeInstanceOf(Map);
+			expect(restored.check("/api", "user1")).toEqual(limiter.check("/api", "user1"));
+		});
+
+		test("should skip expired entries", () => {
+			const limiter = new RateLimiter({ max: 5, window: 1000, enableCleanup: false, clock });
+
+			limiter.check("/api", "user1");
+			clock.advance(500);
+			limiter.check("/api", "user2");
+			clock.advance(500);
+
+			const snapshot = limiter.export();
+			expect(snapshot.entries.map(([key]) => key)).toEqual(["/api:user2"]);
+
+			clock.advance(500);
+			const restored = new RateLimiter({ max: 5, window: 1000, enableCleanup: false, clock });
+			expect(restored.import(snapshot)).toBe(0);
+			expect(restored.getSize()).toBe(0);
+		});
+
+		test("should reject unsupported snapshot versions", async () => {
+			const limiter = new RateLimiter({ enableCleanup: false, clock });
+
+			expect(() => limiter.import({ version: 2, createdAt: START, entries: [] })).toThrow("Unsupported snapshot version: 2");
+			await expect(limiter.importAsync({ version: 2, createdAt: START, entries: [] })).rejects.toThrow("Unsupported snapshot version: 2");
+		});
+
+		test("should round trip asynchronous stores", async () => {
+			const limiter = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, store: createAsyncStore(), enableCleanup: false, clock });
+			await limiter.checkAsync("/api", "user1");
+
+			const snapshot = await limiter.exportAsync();
+			const restored = new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, store: createAsyncStore(), enableCleanup: false, clock });
+			expect(await restored.importAsync(snapshot)).toBe(1);
+			expect((await restored.getAsync("/api", "user1")).current).toBe(1);
+		});
+	});
+
+	describe("Clock", () => {
+		test("should run timers in order at their due time while advancing", () => {
+			const calls: [string, number][] = [];
+
+			clock.setTimeout(() => calls.push(["timeout", clock.now() - START]), 150);
+			const interval = clock.setInterval(() => calls.push(["interval", clock.now() - START]), 100);
+			clock.advance(250);
+
+			expect(calls).toEqual([
+				["interval", 100],
+				["timeout", 150],
+				["interval", 200],
+			]);
+			expect(clock.now()).toBe(START + 250);
+			expect(clock.getTimerCount()).toBe(1);
+
+			clock.clearInterval(interval);
+			clock.advance(1000);
+			expect(calls).toHaveLength(3);
+		});
+
+		test("should not move backwards", () => {
+			expect(() => clock.advance(-1)).toThrow(RangeError);
+			expect(() => clock.set(START - 1)).toThrow(RangeError);
+
+			clock.set(START + 500);
+			expect(clock.now()).toBe(START + 500);
+		});
+
+		test("should schedule cleanup on the configured scheduler", () => {
+			const limiter = new RateLimiter({ max: 2, window: 100, cleanupInterval: 50, clock, scheduler: clock });
+			expect(clock.getTimerCount()).toBe(1);
+
+			limiter.clear();
+			expect(clock.getTimerCount()).toBe(0);
+		});
+
+		test("should time out store operations on the configured scheduler", async () => {
+			const hangingStore: RateLimitStore = { ...createAsyncStore(), increment: () => new Promise<Entry>(() => {}) };
+			const limiter = new RateLimiter({ store: hangingStore, storeTimeout: 1000, enableCleanup: false, clock, scheduler: clock });
+
+			const result = limiter.checkAsync("/api", "user1");
+			await Bun.sleep(0);
+			clock.advance(1000);
+
+			await expect(result).rejects.toThrow("timed out after 1000ms");
+			expect(clock.getTimerCount()).toBe(0);
+		});
 	});
 
 	describe("Common Behavior", () => {
@@ -328,11 +2345,13 @@ describe("RateLimiter", () => {
 			});
 		});
 
-		test("should handle cleanup of expired entries", async () => {
+		test("should handle cleanup of expired entries", () => {
 			const limiter = new RateLimiter({
 				max: 2,
 				window: 100,
 				cleanupInterval: 50,
+				clock,
+				scheduler: clock,
 			});
 
 			// Add active entry
@@ -340,7 +2359,7 @@ describe("RateLimiter", () => {
 			expect(limiter.getSize()).toBe(1);
 
 			// Wait for expiration and cleanup
-			await Bun.sleep(150);
+			clock.advance(150);
 			expect(limiter.getSize()).toBe(0);
 		});
 
@@ -349,10 +2368,11 @@ describe("RateLimiter", () => {
 				max: 2,
 				window: 100,
 				enableCleanup: false,
+				clock,
 			});
 
 			limiter.check("/api", "user1");
-			Bun.sleepSync(150);
+			clock.advance(150);
 
 			// Entry still exists but should be expired
 			expect(limiter.getSize()).toBe(1);
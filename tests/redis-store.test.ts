@@ -0,0 +1,444 @@
+import { describe, expect, test, beforeEach, afterEach, setSystemTime } from "bun:test";
+import RedisMock from "ioredis-mock";
+import { RateLimiter, Algorithm, EvictionPolicy, RedisStore, ManualClock, type RedisClient } from "../src/index";
+
+const START = 1_800_000_000_000;
+
+describe("RedisStore", () => {
+	const redis = new RedisMock();
+	const commands = redis as unknown as Record<string, (...args: string[]) => Promise<unknown>>;
+	const client: RedisClient = {
+		send: (command, args) => commands[command.toLowerCase()](...args),
+	};
+	const options = { cost: 1, consumeRejected: true };
+	let store: RedisStore;
+	let clock: ManualClock;
+
+	beforeEach(async () => {
+		// The mock server expires keys by the system clock
+		setSystemTime(new Date(START));
+		clock = new ManualClock(START);
+		await redis.flushall();
+		store = new RedisStore({ client, prefix: "test:" });
+	});
+
+	afterEach(() => {
+		setSystemTime();
+	});
+
+	describe("Storage", () => {
+		test("should round-trip entries including sliding window buckets", async () => {
+			const resetTime = START + 10_000;
+			const buckets = new Map([
+				[resetTime - 10_000, 2],
+				[resetTime - 9_900, 3],
+			]);
+
+			await store.set("/api:user1", { count: 5, buckets, resetTime });
+
+			expect(await store.get("/api:user1")).toEqual({ count: 5, buckets, resetTime });
+			expect(await store.get("/api:user2")).toBeUndefined();
+		});
+
+		test("should expire keys through TTLs", async () => {
+			const now = START;
+			await store.increment("/api:user1", 1, now + 5000, now);
+
+			expect(await redis.pttl("test:/api:user1")).toBe(5000);
+		});
+
+		test("should only see keys with its own prefix", async () => {
+			const now = START;
+			const otherStore = new RedisStore({ client, prefix: "other:" });
+
+			await store.increment("/api:user1", 1, now + 5000, now);
+			await store.increment("/api:user2", 1, now + 5000, now);
+			await otherStore.increment("/api:user1", 1, now + 5000, now);
+
+			expect(await store.size()).toBe(2);
+
+			const keys: string[] = [];
+			for await (const [key] of store.entries()) {
+				keys.push(key);
+			}
+			expect(keys.sort()).toEqual(["/api:user1", "/api:user2"]);
+
+			await store.clear();
+			expect(await store.size()).toBe(0);
+			expect(await otherStore.size()).toBe(1);
+		});
+
+		test("should delete entries", async () => {
+			const now = START;
+			await store.increment("/api:user1", 1, now + 5000, now);
+
+			expect(await store.delete("/api:user1")).toBeTrue();
+			expect(await store.delete("/api:user1")).toBeFalse();
+		});
+
+		test("should return updated entries when the server's clock is past their reset time", async () => {
+			// Timestamps of a replica whose clock is far behind the server, so PEXPIREAT deletes the keys right away
+			const now = 1_000_000_000_000;
+			const config = { algorithm: Algorithm.SLIDING_WINDOW, window: 1000, max: 5, precision: 100 };
+
+			expect(await store.increment("/api:user1", 1, now + 1000, now)).toEqual({ count: 1, resetTime: now + 1000 });
+			expect(await store.consume("/api:user2", now, config, options)).toEqual({ count: 1, buckets: new Map([[now, 1]]), resetTime: now + 1000 });
+			expect(await store.get("/api:user1")).toBeUndefined();
+		});
+	});
+
+	describe("Fixed Window Algorithm", () => {
+		const config = { algorithm: Algorithm.FIXED_WINDOW, window: 1000, max: 2 };
+
+		test("should count requests and limit after max", async () => {
+			const limiter = new RateLimiter({ ...config, store, clock });
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: false, current: 1, remaining: 1 });
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: false, current: 2, remaining: 0 });
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, current: 3, remaining: 0 });
+		});
+
+		test("should reset count after window expires", async () => {
+			const now = START;
+			await store.consume("/api:user1", now, config, options);
+			await store.consume("/api:user1", now + 500, config, options);
+
+			const entry = await store.consume("/api:user1", now + 1000, config, options);
+			expect(entry).toEqual({ count: 1, resetTime: now + 2000 });
+		});
+	});
+
+	describe("Sliding Window Algorithm", () => {
+		const config = { algorithm: Algorithm.SLIDING_WINDOW, window: 1000, max: 5, precision: 100 };
+
+		test("should track requests in precision buckets", async () => {
+			const now = START;
+			await store.consume("/api:user1", now, config, options);
+			await store.consume("/api:user1", now + 50, config, options);
+			const entry = await store.consume("/api:user1", now + 150, config, options);
+
+			expect(entry).toEqual({
+				count: 3,
+				buckets: new Map([
+					[now, 2],
+					[now + 100, 1],
+				]),
+				resetTime: now + 1100,
+			});
+		});
+
+		test("should expire old buckets", async () => {
+			const now = START;
+			await store.consume("/api:user1", now, config, options);
+			await store.consume("/api:user1", now + 500, config, options);
+
+			const entry = await store.consume("/api:user1", now + 1000, config, options);
+			expect(entry).toEqual({
+				count: 2,
+				buckets: new Map([
+					[now + 500, 1],
+					[now + 1000, 1],
+				]),
+				resetTime: now + 2000,
+			});
+		});
+
+		test("should limit when max requests reached", async () => {
+			const limiter = new RateLimiter({ ...config, store, clock });
+
+			for (let i = 0; i < 5; i++) {
+				await limiter.checkAsync("/api", "user1");
+			}
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, current: 6, remaining: 0 });
+		});
+
+		test("should report the live buckets of rejected requests that don't consume", async () => {
+			const limiterConfig = { ...config, max: 3, consumeRejected: false, enableCleanup: false, clock };
+			const limiter = new RateLimiter({ ...limiterConfig, store });
+			const memoryLimiter = new RateLimiter(limiterConfig);
+
+			for (const advance of [0, 300, 300]) {
+				clock.advance(advance);
+				expect(await limiter.checkAsync("/api", "user1")).toEqual(memoryLimiter.check("/api", "user1"));
+			}
+
+			// The oldest request leaves the window 300ms from now
+			clock.advance(100);
+			const expected = memoryLimiter.check("/api", "user1");
+			expect(expected).toMatchObject({ limited: true, retryAfter: 300 });
+			expect(await limiter.checkAsync("/api", "user1")).toEqual(expected);
+		});
+	});
+
+	describe("Sliding Window Counter Algorithm", () => {
+		const config = { algorithm: Algorithm.SLIDING_WINDOW_COUNTER, window: 1000, max: 5 };
+
+		test("should move the count into the previous window", async () => {
+			const windowStart = START;
+			await store.consume("/api:user1", windowStart + 100, config, options);
+			await store.consume("/api:user1", windowStart + 900, config, options);
+
+			expect(await store.consume("/api:user1", windowStart + 1500, config, options)).toEqual({
+				count: 1,
+				previousCount: 2,
+				windowStart: windowStart + 1000,
+				resetTime: windowStart + 3000,
+			});
+		});
+
+		test("should forget windows that are not adjacent", async () => {
+			const windowStart = START;
+			await store.consume("/api:user1", windowStart, config, options);
+
+			expect(await store.consume("/api:user1", windowStart + 2000, config, options)).toMatchObject({ count: 1, previousCount: 0 });
+		});
+	});
+
+	describe("Token Bucket Algorithm", () => {
+		const config = { algorithm: Algorithm.TOKEN_BUCKET, window: 1000, max: 2, refillRate: 1, refillInterval: 500 };
+
+		test("should consume and refill tokens", async () => {
+			const now = START;
+			await store.consume("/api:user1", now, config, options);
+			await store.consume("/api:user1", now, config, options);
+			expect(await store.consume("/api:user1", now, config, options)).toMatchObject({ tokens: -1 });
+
+			// The bucket is full again two refills after the last one
+			const entry = await store.consume("/api:user1", now + 600, config, options);
+			expect(entry).toEqual({ tokens: 0, lastRefill: now + 600, resetTime: now + 1600 });
+		});
+
+		test("should limit through the rate limiter", async () => {
+			const limiter = new RateLimiter({ ...config, store, clock });
+
+			await limiter.checkAsync("/api", "user1");
+			await limiter.checkAsync("/api", "user1");
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, remaining: 0 });
+		});
+
+		test("should not drain tokens for rejected requests when consumeRejected is false", async () => {
+			const limiter = new RateLimiter({ ...config, consumeRejected: false, store, clock });
+
+			for (let i = 0; i < 5; i++) {
+				await limiter.checkAsync("/api", "user1");
+			}
+
+			expect(await store.get("/api:user1")).toMatchObject({ tokens: 0 });
+		});
+	});
+
+	describe("Leaky Bucket Algorithm", () => {
+		const config = { algorithm: Algorithm.LEAKY_BUCKET, max: 2, leakRate: 1, leakInterval: 500 };
+
+		test("should fill and drain the bucket", async () => {
+			const now = START;
+			await store.consume("/api:user1", now, config, options);
+			expect(await store.consume("/api:user1", now, config, options)).toEqual({ level: 2, lastLeak: now, resetTime: now + 1000 });
+
+			const entry = await store.consume("/api:user1", now + 250, config, options);
+			expect(entry).toEqual({ level: 2.5, lastLeak: now + 250, resetTime: now + 1500 });
+		});
+
+		test("should limit through the rate limiter", async () => {
+			const limiter = new RateLimiter({ ...config, store, clock });
+
+			await limiter.checkAsync("/api", "user1");
+			const result = await limiter.checkAsync("/api", "user1");
+			expect(result.limited).toBeFalse();
+			expect(result.delay).toBe(500);
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, remaining: 0 });
+		});
+
+		test("should drop requests that overflow the bucket", async () => {
+			await store.consume("/api:user2", START, config, options);
+			await store.consume("/api:user2", START, config, options);
+			const stored = await store.get("/api:user2");
+
+			expect(await store.consume("/api:user2", START, config, options)).toMatchObject({ level: 3 });
+			expect(await store.get("/api:user2")).toEqual(stored!);
+		});
+	});
+
+	describe("GCRA Algorithm", () => {
+		const config = { algorithm: Algorithm.GCRA, window: 1000, max: 3 };
+
+		test("should advance the theoretical arrival time", async () => {
+			const now = START;
+			await store.consume("/api:user1", now, config, options);
+			const entry = await store.consume("/api:user1", now, config, options);
+			expect(entry.tat).toBeCloseTo(now + 666.667, 2);
+
+			expect(await store.consume("/api:user1", now + 2000, config, options)).toEqual({ tat: now + 2000 + 1000 / 3, resetTime: now + 2000 + 1000 / 3 });
+		});
+
+		test("should limit through the rate limiter", async () => {
+			const limiter = new RateLimiter({ ...config, store, clock });
+
+			for (let i = 0; i < 3; i++) {
+				await limiter.checkAsync("/api", "user1");
+			}
+
+			expect(await limiter.checkAsync("/api", "user1")).toMatchObject({ limited: true, current: 4, remaining: 0 });
+		});
+
+		test("should not move the theoretical arrival time for limited requests", async () => {
+			await store.consume("/api:user2", START, config, options);
+			await store.consume("/api:user2", START, config, options);
+			await store.consume("/api:user2", START, config, options);
+			const stored = await store.get("/api:user2");
+
+			expect((await store.consume("/api:user2", START, config, options)).tat).toBeCloseTo(START + 4000 / 3, 2);
+			expect(await store.get("/api:user2")).toEqual(stored!);
+		});
+	});
+
+	describe("Request Cost", () => {
+		const algorithms = [
+			Algorithm.FIXED_WINDOW,
+			Algorithm.SLIDING_WINDOW,
+			Algorithm.SLIDING_WINDOW_COUNTER,
+			Algorithm.TOKEN_BUCKET,
+			Algorithm.LEAKY_BUCKET,
+			Algorithm.GCRA,
+		];
+
+		test("should consume the cost of each request", async () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 10, window: 1000, store, clock });
+
+				expect(await limiter.checkAsync(algorithm, "user1", { cost: 4 })).toMatchObject({ limited: false, current: 4, remaining: 6 });
+				expect(await limiter.checkAsync(algorithm, "user1", { cost: 6 })).toMatchObject({ limited: false, current: 10, remaining: 0 });
+				expect(await limiter.checkAsync(algorithm, "user1", { cost: 1 })).toMatchObject({ limited: true, remaining: 0 });
+			}
+		});
+
+		test("should leave the stored entry unchanged for rejected requests when consumeRejected is false", async () => {
+			for (const algorithm of algorithms) {
+				const limiter = new RateLimiter({ algorithm, max: 10, window: 1000, store, clock });
+
+				await limiter.checkAsync(algorithm, "user1", { cost: 8 });
+				const stored = (await store.get(`${algorithm}:user1`))!;
+
+				expect(await limiter.checkAsync(algorithm, "user1", { cost: 5, consumeRejected: false })).toMatchObject({ limited: true });
+				expect(await store.get(`${algorithm}:user1`)).toEqual(stored);
+				expect(await limiter.checkAsync(algorithm, "user1", { cost: 2, consumeRejected: false })).toMatchObject({ limited: false, remaining: 0 });
+			}
+		});
+	});
+
+	describe("Refund", () => {
+		test("should give back consumed requests", async () => {
+			for (const algorithm of [Algorithm.FIXED_WINDOW, Algorithm.SLIDING_WINDOW, Algorithm.TOKEN_BUCKET, Algorithm.GCRA]) {
+				const limiter = new RateLimiter({ algorithm, max: 2, window: 1000, store, clock });
+
+				await limiter.checkAsync(algorithm, "user1");
+				await limiter.checkAsync(algorithm, "user1");
+				expect(await limiter.refundAsync(algorithm, "user1")).toMatchObject({ current: 1, remaining: 1 });
+				expect((await limiter.checkAsync(algorithm, "user1")).limited).toBeFalse();
+				expect((await limiter.checkAsync(algorithm, "user1")).limited).toBeTrue();
+			}
+		});
+
+		test("should refund like the memory store", async () => {
+			const algorithms = [
+				Algorithm.FIXED_WINDOW,
+				Algorithm.SLIDING_WINDOW,
+				Algorithm.SLIDING_WINDOW_COUNTER,
+				Algorithm.TOKEN_BUCKET,
+				Algorithm.LEAKY_BUCKET,
+				Algorithm.GCRA,
+			];
+
+			for (const algorithm of algorithms) {
+				const config = { algorithm, max: 5, window: 1000, precision: 100, enableCleanup: false, clock };
+				const redisLimiter = new RateLimiter({ ...config, store });
+				const memoryLimiter = new RateLimiter(config);
+				const checked = clock.now();
+
+				for (const limiter of [redisLimiter, memoryLimiter]) {
+					await limiter.checkAsync(algorithm, "user1", { cost: 2 });
+				}
+				clock.advance(150);
+				for (const limiter of [redisLimiter, memoryLimiter]) {
+					await limiter.checkAsync(algorithm, "user1", { cost: 2 });
+				}
+				clock.advance(150);
+
+				const refunded = await memoryLimiter.refundAsync(algorithm, "user1", { timestamp: checked });
+				expect(await redisLimiter.refundAsync(algorithm, "user1", { timestamp: checked })).toEqual(refunded);
+				expect(await redisLimiter.refundAsync(algorithm, "user2")).toEqual(await memoryLimiter.refundAsync(algorithm, "user2"));
+			}
+		});
+
+		test("should keep requests other replicas check during a refund", async () => {
+			for (const algorithm of [Algorithm.SLIDING_WINDOW, Algorithm.SLIDING_WINDOW_COUNTER, Algorithm.TOKEN_BUCKET, Algorithm.LEAKY_BUCKET, Algorithm.GCRA]) {
+				const replicas = [
+					new RateLimiter({ algorithm, max: 5, window: 1000, store: new RedisStore({ client, prefix: "test:" }), clock }),
+					new RateLimiter({ algorithm, max: 5, window: 1000, store: new RedisStore({ client, prefix: "test:" }), clock }),
+				];
+
+				await replicas[0].checkAsync(algorithm, "user1");
+				await replicas[0].checkAsync(algorithm, "user1");
+				await Promise.all([replicas[0].refundAsync(algorithm, "user1"), replicas[1].checkAsync(algorithm, "user1")]);
+
+				expect((await replicas[0].getAsync(algorithm, "user1")).current).toBe(2);
+			}
+		});
+	});
+
+	describe("Shared State", () => {
+		test("should enforce one limit across limiters sharing the server", async () => {
+			const replicas = [
+				new RateLimiter({ max: 5, window: 1000, store: new RedisStore({ client, prefix: "test:" }), clock }),
+				new RateLimiter({ max: 5, window: 1000, store: new RedisStore({ client, prefix: "test:" }), clock }),
+			];
+
+			const results = await Promise.all(Array.from({ length: 10 }, (_, i) => replicas[i % 2].checkAsync("/api", "user1")));
+
+			expect(results.filter((result) => !result.limited)).toHaveLength(5);
+			expect(results.map((result) => result.current).sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+		});
+
+		test("should keep requests other replicas check while rolling back multiple limits", async () => {
+			// Lets the other replica check right after the shared hourly entry is read, which an atomic rollback never does
+			let interleave: (() => Promise<unknown>) | undefined;
+			const interleavingClient: RedisClient = {
+				send: async (command, args) => {
+					const reply = await client.send(command, args);
+					const run = interleave;
+					if (run && command === "HGETALL" && args[0] === "test:/api:user1#1") {
+						interleave = undefined;
+						await run();
+					}
+					return reply;
+				},
+			};
+
+			const hourly = { algorithm: Algorithm.SLIDING_WINDOW, max: 100, window: 3_600_000 };
+			const strict = new RateLimiter({
+				limits: [{ max: 1, window: 1000 }, hourly],
+				store: new RedisStore({ client: interleavingClient, prefix: "test:" }),
+				clock,
+			});
+			const relaxed = new RateLimiter({ limits: [{ max: 100, window: 1000 }, hourly], store: new RedisStore({ client, prefix: "test:" }), clock });
+
+			await strict.checkAsync("/api", "user1");
+			interleave = () => relaxed.checkAsync("/api", "user1");
+			expect((await strict.checkAsync("/api", "user1")).limited).toBeTrue();
+			await interleave?.();
+
+			expect((await store.get("/api:user1#1"))!.count).toBe(2);
+		});
+
+		test("should not support the LIMIT eviction policy, which would scan the keys for every new identifier", () => {
+			expect(() => new RateLimiter({ store, maxEntries: 100, evictionPolicy: EvictionPolicy.LIMIT })).toThrow("requires a store that tracks its size");
+		});
+
+		test("should not be usable through synchronous methods", () => {
+			const limiter = new RateLimiter({ store });
+			expect(() => limiter.check("/api", "user1")).toThrow("asynchronous");
+		});
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RateLimiter, Algorithm, ManualClock } from "../src/index";
+import { loadSnapshot, persistSnapshots, saveSnapshot } from "../src/snapshot";
+
+const START = 1_800_000_000_000;
+
+describe("Snapshot Files", () => {
+	let directory: string;
+	let path: string;
+	let clock: ManualClock;
+
+	const createLimiter = () => new RateLimiter({ algorithm: Algorithm.SLIDING_WINDOW, max: 2, window: 60_000, enableCleanup: false, clock });
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "rate-limiter-"));
+		path = join(directory, "snapshot.json");
+		clock = new ManualClock(START);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	test("should save and load a snapshot", async () => {
+		const limiter = createLimiter();
+		limiter.check("/api", "user1");
+		limiter.check("/api", "user1");
+
+		await saveSnapshot(limiter, path);
+		expect(JSON.parse(await readFile(path, "utf8"))).toEqual(JSON.parse(JSON.stringify(limiter.export())));
+
+		const restored = createLimiter();
+		expect(await loadSnapshot(restored, path)).toBe(1);
+		expect(restored.check("/api", "user1").limited).toBeTrue();
+	});
+
+	test("should load nothing when the file doesn't exist", async () => {
+		expect(await loadSnapshot(createLimiter(), path)).toBe(0);
+	});
+
+	test("should reject files that aren't snapshots", async () => {
+		await writeFile(path, "not json");
+		await expect(loadSnapshot(createLimiter(), path)).rejects.toThrow();
+	});
+
+	test("should restore, save periodically and save a final snapshot when stopped", async () => {
+		const previous = createLimiter();
+		previous.check("/api", "user1");
+		await saveSnapshot(previous, path);
+
+		let saved!: () => void;
+		const periodicSave = new Promise<void>((resolve) => (saved = resolve));
+
+		const limiter = createLimiter();
+		const stop = await persistSnapshots(limiter, { path, interval: 1000, scheduler: clock, onSave: () => saved() });
+		expect(limiter.get("/api", "user1").current).toBe(1);
+
+		limiter.check("/api", "user2");
+		clock.advance(1000);
+		await periodicSave;
+		expect(JSON.parse(await readFile(path, "utf8")).entries).toHaveLength(2);
+
+		limiter.check("/api", "user3");
+		await stop();
+		expect(JSON.parse(await readFile(path, "utf8")).entries).toHaveLength(3);
+		expect(clock.getTimerCount()).toBe(0);
+	});
+});